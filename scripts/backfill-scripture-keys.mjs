@@ -0,0 +1,98 @@
+/**
+ * Fills in scripture_keys for notes saved before the keys existed, and for their
+ * revisions, using the app's own parser in src/utils/scripture.ts (loaded through Vite),
+ * so the keys match the ones written when a note is saved. sermon_note_passages and scripture_books follow from
+ * the keys through their trigger and generated column.
+ *
+ *   node --env-file=.env scripts/backfill-scripture-keys.mjs
+ *   node --env-file=.env scripts/backfill-scripture-keys.mjs --dry-run
+ *
+ * Needs VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY. Only scripture_keys is written,
+ * so no new revisions are recorded, and running it again changes nothing.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { createServer } from 'vite';
+import { fileURLToPath } from 'node:url';
+
+const BATCH_SIZE = 500;
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const dryRun = process.argv.includes('--dry-run');
+
+const vite = await createServer({
+  root: fileURLToPath(new URL('..', import.meta.url)),
+  configFile: false,
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+const { getScriptureColumns } = await vite.ssrLoadModule('/src/utils/scripture.ts');
+await vite.close();
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+const sameKeys = (a, b) => a.length === b.length && a.every((key, index) => key === b[index]);
+
+// Revisions recorded before they kept keys have none, so they're always filled in
+async function backfill(table, label) {
+  let lastId = null;
+  let checked = 0;
+  let updated = 0;
+
+  for (;;) {
+    let query = supabase
+      .from(table)
+      .select('id, scripture_references, scripture_keys')
+      .order('id')
+      .limit(BATCH_SIZE);
+
+    if (lastId) {
+      query = query.gt('id', lastId);
+    }
+
+    const { data: rows, error } = await query;
+    if (error) {
+      console.error(`Failed to load ${label}:`, error.message);
+      process.exit(1);
+    }
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      const { scripture_keys } = getScriptureColumns(row.scripture_references || []);
+      checked++;
+
+      if (row.scripture_keys && sameKeys(scripture_keys, row.scripture_keys)) continue;
+
+      if (!dryRun) {
+        const { error: updateError } = await supabase
+          .from(table)
+          .update({ scripture_keys })
+          .eq('id', row.id);
+
+        if (updateError) {
+          console.error(`Failed to update ${row.id}:`, updateError.message);
+          process.exitCode = 1;
+          continue;
+        }
+      }
+
+      updated++;
+    }
+
+    lastId = rows[rows.length - 1].id;
+  }
+
+  console.log(`Scripture keys: ${updated} of ${checked} ${label} ${dryRun ? 'would be ' : ''}updated`);
+}
+
+await backfill('sermon_notes', 'notes');
+await backfill('sermon_note_revisions', 'revisions');
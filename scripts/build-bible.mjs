@@ -0,0 +1,60 @@
+/**
+ * Builds the per-book Bible text chunks served from public/bible/<translation>/.
+ *
+ * Source: verses-1769.json from the `kjv` package (public domain text), e.g.
+ *   npm pack kjv && tar xzf kjv-*.tgz
+ *   node scripts/build-bible.mjs package/json/verses-1769.json
+ *
+ * Each chunk is { "book": "JHN", "chapters": [["verse 1", "verse 2", ...], ...] }.
+ * Books appear in the source in canonical order, which matches BIBLE_BOOKS in
+ * src/utils/scripture.ts.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+
+const BOOK_IDS = [
+  'GEN', 'EXO', 'LEV', 'NUM', 'DEU', 'JOS', 'JDG', 'RUT', '1SA', '2SA', '1KI', '2KI',
+  '1CH', '2CH', 'EZR', 'NEH', 'EST', 'JOB', 'PSA', 'PRO', 'ECC', 'SNG', 'ISA', 'JER',
+  'LAM', 'EZK', 'DAN', 'HOS', 'JOL', 'AMO', 'OBA', 'JON', 'MIC', 'NAM', 'HAB', 'ZEP',
+  'HAG', 'ZEC', 'MAL', 'MAT', 'MRK', 'LUK', 'JHN', 'ACT', 'ROM', '1CO', '2CO', 'GAL',
+  'EPH', 'PHP', 'COL', '1TH', '2TH', '1TI', '2TI', 'TIT', 'PHM', 'HEB', 'JAS', '1PE',
+  '2PE', '1JN', '2JN', '3JN', 'JUD', 'REV'
+];
+
+const [sourcePath, translation = 'kjv'] = process.argv.slice(2);
+if (!sourcePath) {
+  console.error('Usage: node scripts/build-bible.mjs <verses.json> [translation]');
+  process.exit(1);
+}
+
+const verses = JSON.parse(readFileSync(sourcePath, 'utf8'));
+const books = [];
+
+for (const [reference, text] of Object.entries(verses)) {
+  const match = reference.match(/^(.+) (\d+):(\d+)$/);
+  if (!match) throw new Error(`Unexpected reference: ${reference}`);
+
+  const [, name, chapter, verse] = match;
+  if (books[books.length - 1]?.name !== name) {
+    books.push({ name, chapters: [] });
+  }
+
+  const book = books[books.length - 1];
+  const chapterVerses = (book.chapters[Number(chapter) - 1] ??= []);
+  // "#" marks a new paragraph and [brackets] mark italics in the source
+  chapterVerses[Number(verse) - 1] = text.replace(/^#\s*/, '').replace(/[[\]]/g, '').trim();
+}
+
+if (books.length !== BOOK_IDS.length) {
+  throw new Error(`Expected ${BOOK_IDS.length} books, found ${books.length}`);
+}
+
+const outputDir = join('public', 'bible', translation);
+mkdirSync(outputDir, { recursive: true });
+
+books.forEach((book, index) => {
+  const chunk = { book: BOOK_IDS[index], chapters: book.chapters };
+  writeFileSync(join(outputDir, `${BOOK_IDS[index]}.json`), JSON.stringify(chunk));
+});
+
+console.log(`Wrote ${books.length} books to ${outputDir}`);
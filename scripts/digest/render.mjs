@@ -0,0 +1,162 @@
+/**
+ * Renders a digest from get_weekly_digest into the subject, HTML and plain-text parts of
+ * an email. Colors follow the app's holy-blue palette in tailwind.config.js.
+ */
+
+const escapeHtml = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const plural = (count, word) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const truncate = (text, length = 160) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const noteTitle = (title) => (title ? `"${title}"` : 'a sermon note');
+
+// Worded like getNotificationMessage in src/utils/notifications.ts
+function describeNotification(notification) {
+  const title = noteTitle(notification.sermon_note_title);
+  const others = notification.actor_count - 1;
+  const actor = `${notification.actor_name || 'Someone'}${
+    others > 0 ? ` and ${plural(others, 'other')}` : ''
+  }`;
+  const churchName = notification.content?.church_name || 'the church';
+
+  switch (notification.type) {
+    case 'praise':
+      return `${actor} praised your sermon note ${title}`;
+    case 'comment_praise':
+      return `${actor} praised your comment on ${title}`;
+    case 'comment':
+      return `${actor} commented on your sermon note ${title}`;
+    case 'new_follower':
+      return `${actor} started following you`;
+    case 'mention':
+      return notification.content?.comment_id
+        ? `${actor} mentioned you in a comment on ${title}`
+        : `${actor} mentioned you in ${title}`;
+    case 'membership_approved':
+      return `Your request to join ${churchName} was approved`;
+    case 'membership_rejected':
+      return `Your request to join ${churchName} was declined`;
+    default:
+      return `${actor} sent you a notification`;
+  }
+}
+
+function notificationPath(notification) {
+  if (notification.type === 'membership_approved' || notification.type === 'membership_rejected') {
+    return notification.content?.church_id ? `/church/${notification.content.church_id}` : '/notifications';
+  }
+  if (notification.type === 'new_follower' && notification.content?.follower_id) {
+    return `/profile/${notification.content.follower_id}`;
+  }
+  return notification.sermon_note_id ? `/sermon-notes/${notification.sermon_note_id}` : '/notifications';
+}
+
+// Each section is a heading and a list of { text, detail, path } items
+function buildSections(digest) {
+  // Replies have their own section
+  const activity = digest.notifications.filter(notification => notification.type !== 'reply');
+
+  return [
+    {
+      title: 'Top notes from people you follow',
+      items: digest.top_notes.map(note => ({
+        text: `${note.title} by ${note.author_name}`,
+        detail: `${plural(note.praise_count, 'praise')} · ${plural(note.comment_count, 'comment')}`,
+        path: `/sermon-notes/${note.id}`
+      }))
+    },
+    {
+      title: 'Replies to your comments',
+      items: digest.replies.map(reply => ({
+        text: `${reply.author_name} replied on ${noteTitle(reply.sermon_note_title)}`,
+        detail: truncate(reply.content),
+        path: `/sermon-notes/${reply.sermon_note_id}#comments`
+      }))
+    },
+    {
+      title: 'From your church',
+      items: digest.church_notes.map(note => ({
+        text: note.title,
+        detail: `${note.author_name} · ${note.church_name}`,
+        path: `/sermon-notes/${note.id}`
+      }))
+    },
+    {
+      title: 'Also this week',
+      items: activity.map(notification => ({
+        text: describeNotification(notification),
+        detail: null,
+        path: notificationPath(notification)
+      }))
+    }
+  ].filter(section => section.items.length > 0);
+}
+
+export function isEmptyDigest(digest) {
+  return buildSections(digest).length === 0;
+}
+
+export function renderDigest(digest, { recipient, appUrl }) {
+  const sections = buildSections(digest);
+  const url = (path) => new URL(path, appUrl).toString();
+  const name = recipient.full_name || recipient.username;
+  const subject = 'Your week on Sermon Buddy';
+  const settingsUrl = url(`/profile/${recipient.user_id}?view=settings`);
+
+  const text = [
+    `Hi ${name},`,
+    '',
+    "Here's what happened this week.",
+    ...sections.flatMap(section => [
+      '',
+      section.title.toUpperCase(),
+      ...section.items.flatMap(item => [
+        `- ${item.text}`,
+        ...(item.detail ? [`  ${item.detail}`] : []),
+        `  ${url(item.path)}`
+      ])
+    ]),
+    '',
+    '--',
+    `To stop these emails, turn off the weekly digest in your settings: ${settingsUrl}`
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f0f7ff;font-family:Arial,Helvetica,sans-serif;color:#0a3f70;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border:1px solid #e0effe;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 8px;font-size:22px;">Your week on Sermon Buddy</h1>
+          <p style="margin:0 0 16px;">Hi ${escapeHtml(name)}, here's what happened this week.</p>
+${sections.map(section => `          <h2 style="margin:24px 0 8px;font-size:16px;">${escapeHtml(section.title)}</h2>
+          <ul style="margin:0;padding:0 0 0 20px;">
+${section.items.map(item => `            <li style="margin:0 0 10px;">
+              <a href="${escapeHtml(url(item.path))}" style="color:#0072cb;text-decoration:none;">${escapeHtml(item.text)}</a>${
+                item.detail ? `<br><span style="font-size:13px;color:#0c8fee;">${escapeHtml(item.detail)}</span>` : ''
+              }
+            </li>`).join('\n')}
+          </ul>`).join('\n')}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;border-top:1px solid #e0effe;font-size:12px;color:#0c8fee;">
+          To stop these emails, turn off the weekly digest in your
+          <a href="${escapeHtml(settingsUrl)}" style="color:#0072cb;">settings</a>.
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>
+`;
+
+  return { subject, html, text };
+}
@@ -0,0 +1,131 @@
+/**
+ * Mail transports for the digest. Each is created from the environment and exposes
+ * send({ from, to, subject, html, text }). Add a transport by registering a factory in
+ * TRANSPORTS; DIGEST_TRANSPORT picks one by name.
+ *
+ *   file  Writes each email as a .eml file, plus its .html part for previewing, into
+ *         DIGEST_OUT_DIR (default tmp/digests)
+ *   smtp  Sends over plain SMTP to SMTP_HOST:SMTP_PORT (default localhost:1025), for a
+ *         local catcher such as Mailpit or MailHog. No TLS or authentication.
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { createConnection } from 'node:net';
+
+// A multipart/alternative message with the plain-text part first
+function buildMessage({ from, to, subject, html, text }) {
+  const boundary = `digest-${randomUUID()}`;
+  const encode = (body) => Buffer.from(body, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: =?UTF-8?B?${Buffer.from(subject, 'utf8').toString('base64')}?=`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@sermon-buddy>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encode(text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encode(html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+function createFileTransport(env) {
+  const outDir = env.DIGEST_OUT_DIR || join('tmp', 'digests');
+
+  return {
+    async send(email) {
+      mkdirSync(outDir, { recursive: true });
+
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${email.to.replace(/[^a-z0-9@.-]/gi, '_')}`;
+      writeFileSync(join(outDir, `${name}.eml`), buildMessage(email));
+      writeFileSync(join(outDir, `${name}.html`), email.html);
+
+      return join(outDir, `${name}.eml`);
+    }
+  };
+}
+
+function createSmtpTransport(env) {
+  const host = env.SMTP_HOST || 'localhost';
+  const port = Number(env.SMTP_PORT || 1025);
+
+  return {
+    send(email) {
+      const message = buildMessage(email)
+        // Dot-stuffing, so no line of the body ends the DATA section early
+        .replace(/^\./gm, '..');
+      const commands = [
+        'EHLO sermon-buddy',
+        `MAIL FROM:<${email.from.replace(/^.*<|>$/g, '')}>`,
+        `RCPT TO:<${email.to}>`,
+        'DATA',
+        `${message}\r\n.`,
+        'QUIT'
+      ];
+
+      return new Promise((resolve, reject) => {
+        const socket = createConnection({ host, port });
+        let buffer = '';
+        let sent = false;
+
+        socket.setEncoding('utf8');
+        socket.setTimeout(10000, () => socket.destroy(new Error('SMTP connection timed out')));
+        socket.on('error', reject);
+        socket.on('close', () => {
+          if (!sent) reject(new Error('SMTP connection closed early'));
+        });
+
+        // Send the next command after each complete reply; multi-line replies use "250-"
+        socket.on('data', (chunk) => {
+          buffer += chunk;
+          const lines = buffer.split('\r\n');
+          buffer = lines.pop();
+
+          for (const line of lines) {
+            if (/^\d{3}-/.test(line)) continue;
+
+            if (!/^[23]\d{2}/.test(line)) {
+              socket.destroy(new Error(`SMTP error: ${line}`));
+              return;
+            }
+
+            const command = commands.shift();
+            if (command === undefined) {
+              sent = true;
+              socket.end();
+              resolve(`${host}:${port}`);
+              return;
+            }
+            socket.write(`${command}\r\n`);
+          }
+        });
+      });
+    }
+  };
+}
+
+const TRANSPORTS = {
+  file: createFileTransport,
+  smtp: createSmtpTransport
+};
+
+export function createTransport(name, env = process.env) {
+  const factory = TRANSPORTS[name];
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${name}". Use one of: ${Object.keys(TRANSPORTS).join(', ')}`);
+  }
+  return factory(env);
+}
@@ -0,0 +1,93 @@
+/**
+ * Sends the weekly email digest to every user who is due one and hasn't opted out.
+ * Meant to run on a weekly schedule with the service role key, e.g.
+ *   node --env-file=.env scripts/send-digest.mjs
+ *   node --env-file=.env scripts/send-digest.mjs --dry-run
+ *
+ * Environment:
+ *   VITE_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY  Database access
+ *   APP_URL            Base for links in the email (default http://localhost:5173)
+ *   DIGEST_FROM        Sender (default Sermon Buddy <digest@sermonbuddy.local>)
+ *   DIGEST_TRANSPORT   file or smtp (default file); see scripts/digest/transports.mjs
+ *
+ * --dry-run renders each digest and logs who it would go to, without sending it or
+ * recording the send.
+ *
+ * What goes in a digest, and who may see it, is decided by get_weekly_digest.
+ */
+import { createClient } from '@supabase/supabase-js';
+import { renderDigest, isEmptyDigest } from './digest/render.mjs';
+import { createTransport } from './digest/transports.mjs';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || process.env.SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('VITE_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+  process.exit(1);
+}
+
+const dryRun = process.argv.includes('--dry-run');
+const appUrl = process.env.APP_URL || 'http://localhost:5173';
+const from = process.env.DIGEST_FROM || 'Sermon Buddy <digest@sermonbuddy.local>';
+const transport = createTransport(process.env.DIGEST_TRANSPORT || 'file');
+
+const supabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: { persistSession: false, autoRefreshToken: false }
+});
+
+const { data: recipients, error: recipientsError } = await supabase.rpc('get_digest_recipients');
+if (recipientsError) {
+  console.error('Failed to load digest recipients:', recipientsError.message);
+  process.exit(1);
+}
+
+let sent = 0;
+let skipped = 0;
+let failed = 0;
+
+for (const recipient of recipients) {
+  try {
+    // Pick up where the last digest left off, looking back at most a week
+    const weekAgo = new Date(Date.now() - WEEK_MS);
+    const lastDigest = recipient.last_digest_at ? new Date(recipient.last_digest_at) : null;
+    const since = lastDigest && lastDigest > weekAgo ? lastDigest : weekAgo;
+
+    const { data: digest, error } = await supabase.rpc('get_weekly_digest', {
+      p_user_id: recipient.user_id,
+      p_since: since.toISOString()
+    });
+    if (error) throw error;
+
+    if (isEmptyDigest(digest)) {
+      skipped++;
+      continue;
+    }
+
+    const email = renderDigest(digest, { recipient, appUrl });
+
+    if (dryRun) {
+      sent++;
+      console.log(`Would send digest to ${recipient.email}: ${email.subject}`);
+      continue;
+    }
+
+    const destination = await transport.send({ from, to: recipient.email, ...email });
+
+    const { error: markError } = await supabase.rpc('mark_digest_sent', {
+      p_user_id: recipient.user_id,
+      p_notification_ids: digest.notifications.map(notification => notification.id)
+    });
+    if (markError) throw markError;
+
+    sent++;
+    console.log(`Sent digest to ${recipient.email} (${destination})`);
+  } catch (error) {
+    failed++;
+    console.error(`Failed to send digest to ${recipient.email}:`, error.message || error);
+  }
+}
+
+console.log(`Digests: ${sent} ${dryRun ? 'would be sent' : 'sent'}, ${skipped} with nothing new, ${failed} failed`);
+process.exitCode = failed > 0 ? 1 : 0;
@@ -14,9 +14,15 @@ import SermonNotes from './pages/SermonNotes';
 import NewSermonNote from './pages/SermonNotes/NewSermonNote';
 import ViewSermonNote from './pages/SermonNotes/ViewSermonNote';
 import Profile from './pages/Profile';
+import FollowList from './pages/FollowList';
 import Church from './pages/Church';
 import Feed from './pages/Feed';
 import ChurchDashboard from './pages/ChurchDashboard';
+import Scripture from './pages/Scripture';
+import Search from './pages/Search';
+import Tag from './pages/Tag';
+import SharedSermonNote from './pages/SharedSermonNote';
+import Notifications from './pages/Notifications';
 import { AuthProvider } from './contexts/AuthContext';
 import { RequireAuth } from './components/auth/RequireAuth';
 
@@ -29,9 +35,17 @@ const router = createBrowserRouter(
       <Route path="sermon-notes" element={<RequireAuth><SermonNotes /></RequireAuth>} />
       <Route path="sermon-notes/new" element={<RequireAuth><NewSermonNote /></RequireAuth>} />
       <Route path="sermon-notes/:id" element={<ViewSermonNote />} />
+      <Route path="sermon-notes/:id/edit" element={<RequireAuth><NewSermonNote /></RequireAuth>} />
+      <Route path="n/:token" element={<SharedSermonNote />} />
       <Route path="profile/:id" element={<Profile />} />
+      <Route path="profile/:id/followers" element={<FollowList type="followers" />} />
+      <Route path="profile/:id/following" element={<FollowList type="following" />} />
       <Route path="church/:id" element={<Church />} />
       <Route path="church/dashboard" element={<RequireAuth><ChurchDashboard /></RequireAuth>} />
+      <Route path="scripture/:book/:chapter" element={<Scripture />} />
+      <Route path="search" element={<Search />} />
+      <Route path="tags/:tag" element={<Tag />} />
+      <Route path="notifications" element={<RequireAuth><Notifications /></RequireAuth>} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Route>
   ),
@@ -1,7 +1,8 @@
 import React from 'react';
 import { Link, Outlet, useLocation } from 'react-router-dom';
-import { Scroll, Home, User, Church, Bell, LogOut } from 'lucide-react';
+import { Scroll, Home, User, Church, LogOut } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { NotificationBell } from './notifications/NotificationBell';
 
 export default function Layout() {
   const { user, signOut, userType } = useAuth();
@@ -85,9 +86,7 @@ export default function Layout() {
             <div className="flex items-center space-x-4">
               {user ? (
                 <>
-                  <button className="p-2 rounded-full text-holy-blue-600/70 hover:text-holy-blue-600 hover:bg-holy-blue-50 transition-all">
-                    <Bell className="h-6 w-6" />
-                  </button>
+                  <NotificationBell />
                   <Link 
                     to={`/profile/${user.id}`} 
                     className="p-2 rounded-full text-holy-blue-600/70 hover:text-holy-blue-600 hover:bg-holy-blue-50 transition-all"
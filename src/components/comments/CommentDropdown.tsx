@@ -1,21 +1,31 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
 import { format } from 'date-fns';
 import { Send, Loader2 } from 'lucide-react';
 import { DefaultAvatar } from '../profile/DefaultAvatar';
 import { cn } from '../../utils/cn';
+import { useCommentPraiseStore } from '../../stores/commentPraiseStore';
+import { CommentPraiseButton } from './CommentPraiseButton';
+import { MentionTextarea } from '../mentions/MentionTextarea';
+import { MentionText } from '../mentions/MentionText';
+import type { CommentMention } from '../../utils/mentions';
+import { groupCommentReplies } from '../../utils/commentThreads';
 
 interface Comment {
   id: string;
+  parent_id: string | null;
   content: string;
   created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
   author: {
     id: string;
     username: string;
     full_name: string;
     avatar_url: string | null;
   };
+  mentions?: CommentMention[];
 }
 
 interface CommentDropdownProps {
@@ -30,8 +40,11 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
   const [newComment, setNewComment] = useState('');
   const [loading, setLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const { initializeCommentPraises, applyCommentPraiseCount } = useCommentPraiseStore();
   const dropdownRef = useRef<HTMLDivElement>(null);
 
+  const replies = useMemo(() => groupCommentReplies(comments), [comments]);
+
   useEffect(() => {
     if (isOpen && dropdownRef.current) {
       loadComments();
@@ -53,7 +66,12 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
           table: 'comments',
           filter: `sermon_note_id=eq.${sermonNoteId}`
         },
-        () => {
+        (payload) => {
+          // A praise only changes the count, which the praise store keeps
+          if (payload.eventType === 'UPDATE' && applyCommentPraiseCount(payload.new.id, payload.new.praise_count)) {
+            return;
+          }
+
           if (dropdownRef.current) {
             loadComments();
           }
@@ -75,13 +93,20 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
         .from('comments')
         .select(`
           id,
+          parent_id,
           content,
           created_at,
+          edited_at,
+          deleted_at,
           author:profiles!comments_author_id_fkey (
             id,
             username,
             full_name,
             avatar_url
+          ),
+          mentions (
+            mentioned_user_id,
+            username
           )
         `)
         .eq('sermon_note_id', sermonNoteId)
@@ -90,7 +115,8 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
       if (error) throw error;
       
       if (dropdownRef.current) {
-        setComments(data || []);
+        setComments((data || []) as unknown as Comment[]);
+        initializeCommentPraises((data || []).map(comment => comment.id));
       }
     } catch (error) {
       console.error('Error loading comments:', error);
@@ -128,6 +154,49 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
     }
   };
 
+  // Replies are nested under the comment they answer
+  const renderComment = (comment: Comment, depth: number): React.ReactNode => (
+    <div key={comment.id} className={cn(depth > 0 && "mt-3 pl-3 border-l-2 border-holy-blue-100")}>
+      <div className="flex items-start gap-3">
+        {comment.deleted_at ? (
+          <div className="w-8 h-8 rounded-full bg-holy-blue-50 flex-shrink-0" />
+        ) : comment.author.avatar_url ? (
+          <img
+            src={comment.author.avatar_url}
+            alt={comment.author.full_name}
+            className="w-8 h-8 rounded-full object-cover"
+          />
+        ) : (
+          <div className="w-8 h-8 rounded-full overflow-hidden">
+            <DefaultAvatar size={32} />
+          </div>
+        )}
+        <div className="flex-1">
+          {comment.deleted_at ? (
+            <p className="text-sm text-holy-blue-500 italic">This comment was deleted.</p>
+          ) : (
+            <>
+              <div className="flex items-baseline justify-between">
+                <h4 className="font-semibold text-holy-blue-900">
+                  {comment.author.full_name}
+                </h4>
+                <span className="text-xs text-holy-blue-500">
+                  {format(new Date(comment.created_at), 'MMM d, yyyy')}
+                  {comment.edited_at && ' · edited'}
+                </span>
+              </div>
+              <p className="text-holy-blue-800 mt-1">
+                <MentionText content={comment.content} mentions={comment.mentions} />
+              </p>
+              <CommentPraiseButton commentId={comment.id} className="mt-1" />
+            </>
+          )}
+        </div>
+      </div>
+      {(replies.get(comment.id) || []).map(reply => renderComment(reply, depth + 1))}
+    </div>
+  );
+
   if (!isOpen) return null;
 
   return (
@@ -155,9 +224,9 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
               </div>
             )}
             <div className="flex-1">
-              <textarea
+              <MentionTextarea
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
+                onChange={setNewComment}
                 placeholder="Write a comment..."
                 className="w-full px-3 py-2 border border-holy-blue-200 rounded-lg resize-none focus:ring-1 focus:ring-holy-blue-500 focus:border-holy-blue-500"
                 rows={2}
@@ -194,32 +263,9 @@ export function CommentDropdown({ sermonNoteId, isOpen, onCommentAdded }: Commen
           </div>
         ) : comments.length > 0 ? (
           <div className="divide-y divide-holy-blue-100">
-            {comments.map((comment) => (
+            {(replies.get(null) || []).map((comment) => (
               <div key={comment.id} className="p-4">
-                <div className="flex items-start gap-3">
-                  {comment.author.avatar_url ? (
-                    <img
-                      src={comment.author.avatar_url}
-                      alt={comment.author.full_name}
-                      className="w-8 h-8 rounded-full object-cover"
-                    />
-                  ) : (
-                    <div className="w-8 h-8 rounded-full overflow-hidden">
-                      <DefaultAvatar size={32} />
-                    </div>
-                  )}
-                  <div className="flex-1">
-                    <div className="flex items-baseline justify-between">
-                      <h4 className="font-semibold text-holy-blue-900">
-                        {comment.author.full_name}
-                      </h4>
-                      <span className="text-xs text-holy-blue-500">
-                        {format(new Date(comment.created_at), 'MMM d, yyyy')}
-                      </span>
-                    </div>
-                    <p className="text-holy-blue-800 mt-1">{comment.content}</p>
-                  </div>
-                </div>
+                {renderComment(comment, 0)}
               </div>
             ))}
           </div>
@@ -0,0 +1,122 @@
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { logger } from '../../utils/logger';
+
+interface CommentRevision {
+  id: string;
+  content: string;
+  created_at: string;
+}
+
+interface CommentHistoryProps {
+  commentId: string;
+  editedAt: string;
+}
+
+// The "edited" marker, opening the comment's earlier versions for those allowed to see them
+export function CommentHistory({ commentId, editedAt }: CommentHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [revisions, setRevisions] = useState<CommentRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadRevisions = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .from('comment_revisions')
+          .select('id, content, created_at')
+          .eq('comment_id', commentId)
+          .order('created_at', { ascending: false });
+
+        if (error) throw error;
+        setRevisions(data || []);
+      } catch (error) {
+        logger.error('loadRevisions', 'Failed to load comment history', error as Error, { commentId });
+        setRevisions([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadRevisions();
+  }, [isOpen, commentId, editedAt]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={popoverRef} className="relative inline-block">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-sm text-holy-blue-500 hover:text-holy-blue-600 underline decoration-dotted"
+        title={`Edited ${format(new Date(editedAt), 'MMM d, yyyy h:mm a')}`}
+        aria-expanded={isOpen}
+      >
+        edited
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 sm:w-80 bg-white rounded-lg shadow-lg border border-holy-blue-100 z-10">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-holy-blue-100">
+            <h4 className="flex items-center gap-2 text-sm font-semibold text-holy-blue-900">
+              <History className="h-4 w-4" />
+              Edit history
+            </h4>
+            <button
+              type="button"
+              onClick={() => setIsOpen(false)}
+              className="text-holy-blue-400 hover:text-holy-blue-600"
+              aria-label="Close edit history"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y divide-holy-blue-100">
+            {loading ? (
+              <div className="flex items-center justify-center p-4">
+                <Loader2 className="h-5 w-5 animate-spin text-holy-blue-500" />
+              </div>
+            ) : revisions.length > 0 ? (
+              revisions.map(revision => (
+                <div key={revision.id} className="px-4 py-3">
+                  <p className="text-xs text-holy-blue-500 mb-1">
+                    Replaced {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+                  </p>
+                  <p className="text-sm text-holy-blue-800 whitespace-pre-wrap">{revision.content}</p>
+                </div>
+              ))
+            ) : (
+              <p className="px-4 py-3 text-sm text-holy-blue-600">No earlier versions to show.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { HelpingHand } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCommentPraiseStore } from '../../stores/commentPraiseStore';
+import { cn } from '../../utils/cn';
+
+interface CommentPraiseButtonProps {
+  commentId: string;
+  className?: string;
+}
+
+export function CommentPraiseButton({ commentId, className }: CommentPraiseButtonProps) {
+  const { user } = useAuth();
+  const { toggleCommentPraise, praisedComments, praiseCounts } = useCommentPraiseStore();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const hasPraised = praisedComments.has(commentId);
+  const praiseCount = praiseCounts.get(commentId) ?? 0;
+  const disabled = isLoading || !user || commentId.startsWith('temp-');
+
+  const handlePraise = async () => {
+    if (disabled) return;
+
+    try {
+      setIsLoading(true);
+      await toggleCommentPraise(commentId);
+    } catch (error) {
+      console.error('Error toggling comment praise:', error);
+      toast.error('Failed to update praise. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handlePraise}
+      disabled={disabled}
+      className={cn(
+        "group inline-flex items-center gap-1 text-sm transition-colors",
+        hasPraised
+          ? "text-divine-yellow-500 hover:text-divine-yellow-600"
+          : "text-holy-blue-500 hover:text-holy-blue-600",
+        !user && "opacity-50 cursor-not-allowed",
+        className
+      )}
+      title={!user ? "Sign in to praise" : hasPraised ? "Remove Praise" : "Praise"}
+      aria-pressed={hasPraised}
+    >
+      <HelpingHand
+        className={cn(
+          "h-4 w-4 transition-transform group-hover:scale-110",
+          hasPraised && "fill-divine-yellow-500",
+          isLoading && "animate-pulse"
+        )}
+      />
+      <span>{praiseCount}</span>
+    </button>
+  );
+}
@@ -1,42 +1,107 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
 import { format } from 'date-fns';
-import { Send, Loader2, MessageCircle, Trash2 } from 'lucide-react';
+import { Send, Loader2, MessageCircle, Trash2, Pencil, Reply, ChevronDown, ChevronRight, ArrowLeft } from 'lucide-react';
 import { DefaultAvatar } from '../profile/DefaultAvatar';
 import { cn } from '../../utils/cn';
 import { toast } from 'sonner';
 import { logger } from '../../utils/logger';
 import { useCommentStore } from '../../stores/commentStore';
+import { useCommentPraiseStore } from '../../stores/commentPraiseStore';
 import { commentLogger } from '../../utils/commentLogger';
+import { CommentPraiseButton } from './CommentPraiseButton';
+import { CommentHistory } from './CommentHistory';
+import { MentionTextarea } from '../mentions/MentionTextarea';
+import { MentionText } from '../mentions/MentionText';
+import { MAX_THREAD_DEPTH, countReplies, groupCommentReplies } from '../../utils/commentThreads';
+import { MENTION_PATTERN, type CommentMention } from '../../utils/mentions';
+
+const COMMENT_COLUMNS = `
+  id,
+  parent_id,
+  content,
+  created_at,
+  edited_at,
+  deleted_at,
+  author:profiles!comments_author_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  mentions (
+    mentioned_user_id,
+    username
+  )
+`;
 
 interface Comment {
   id: string;
+  parent_id: string | null;
   content: string;
   created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
   author: {
     id: string;
     username: string;
     full_name: string;
     avatar_url: string | null;
   };
+  mentions?: CommentMention[];
 }
 
+type CommentSort = 'newest' | 'praised';
+
 interface CommentSectionProps {
   sermonNoteId: string;
+  // The note's author can see the edit history of comments on it
+  noteAuthorId?: string;
   onCommentAdded?: () => void;
 }
 
-export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionProps) {
+export function CommentSection({ sermonNoteId, noteAuthorId, onCommentAdded }: CommentSectionProps) {
   const { user } = useAuth();
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [deleting, setDeleting] = useState<string | null>(null);
+  const [sortBy, setSortBy] = useState<CommentSort>('newest');
+  const [searchParams, setSearchParams] = useSearchParams();
   const { syncCommentCount } = useCommentStore();
+  const { praiseCounts, initializeCommentPraises, applyCommentPraiseCount } = useCommentPraiseStore();
   const commentSectionRef = useRef<HTMLDivElement>(null);
 
+  const replies = useMemo(() => groupCommentReplies(comments), [comments]);
+
+  const canViewHistory = (comment: Comment) =>
+    Boolean(user) && (
+      user?.id === noteAuthorId ||
+      user?.id === comment.author.id ||
+      user?.app_metadata?.role === 'super_admin'
+    );
+
+  // Sorting applies to top-level comments; replies stay in conversation order.
+  // The sort is stable, so equally praised comments keep newest first.
+  const topLevelComments = useMemo(() => {
+    const topLevel = replies.get(null) || [];
+    if (sortBy === 'newest') return topLevel;
+    return [...topLevel].sort((a, b) => (praiseCounts.get(b.id) ?? 0) - (praiseCounts.get(a.id) ?? 0));
+  }, [replies, sortBy, praiseCounts]);
+
+  // A thread opened from a "continue thread" link is shown on its own
+  const threadId = searchParams.get('thread');
+  const threadRoot = threadId ? comments.find(comment => comment.id === threadId) : undefined;
+
   useEffect(() => {
     // Only load comments if the component is mounted
     if (commentSectionRef.current) {
@@ -48,6 +113,22 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
     }
   }, [sermonNoteId]);
 
+  // Reloads one comment into the list. Replies land under their parent when the threads
+  // are grouped.
+  const refreshComment = async (commentId: string) => {
+    const { data, error } = await supabase
+      .from('comments')
+      .select(COMMENT_COLUMNS)
+      .eq('id', commentId)
+      .single();
+
+    if (error || !data) return null;
+
+    const comment = data as unknown as Comment;
+    setComments(prev => [comment, ...prev.filter(c => c.id !== comment.id)]);
+    return comment;
+  };
+
   const subscribeToComments = () => {
     const channel = supabase
       .channel(`comments:${sermonNoteId}`)
@@ -61,29 +142,16 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
         },
         async (payload) => {
           if (!commentSectionRef.current) return; // Check if component is still mounted
+
+          // A praise only changes the count, which the praise store keeps
+          if (payload.eventType === 'UPDATE' && applyCommentPraiseCount(payload.new.id, payload.new.praise_count)) {
+            return;
+          }
           
           if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-            const { data: newComment, error } = await supabase
-              .from('comments')
-              .select(`
-                id,
-                content,
-                created_at,
-                author:profiles!comments_author_id_fkey (
-                  id,
-                  username,
-                  full_name,
-                  avatar_url
-                )
-              `)
-              .eq('id', payload.new.id)
-              .single();
-
-            if (!error && newComment) {
-              setComments(prev => {
-                const filtered = prev.filter(c => c.id !== newComment.id);
-                return [newComment, ...filtered];
-              });
+            const newComment = await refreshComment(payload.new.id);
+            if (newComment && payload.eventType === 'INSERT') {
+              initializeCommentPraises([newComment.id]);
             }
           } else if (payload.eventType === 'DELETE') {
             setComments(prev => prev.filter(c => c.id !== payload.old.id));
@@ -106,24 +174,15 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
       setLoading(true);
       const { data, error } = await supabase
         .from('comments')
-        .select(`
-          id,
-          content,
-          created_at,
-          author:profiles!comments_author_id_fkey (
-            id,
-            username,
-            full_name,
-            avatar_url
-          )
-        `)
+        .select(COMMENT_COLUMNS)
         .eq('sermon_note_id', sermonNoteId)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       
       if (commentSectionRef.current) { // Check again before setting state
-        setComments(data || []);
+        setComments((data || []) as unknown as Comment[]);
+        initializeCommentPraises((data || []).map(comment => comment.id));
       }
     } catch (error) {
       logger.error('loadComments', 'Failed to load comments', error as Error, { sermonNoteId });
@@ -137,7 +196,29 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !newComment.trim() || !sermonNoteId) return;
+    if (await submitComment(newComment, null)) {
+      setNewComment('');
+    }
+  };
+
+  const handleReplySubmit = async (e: React.FormEvent, parentId: string) => {
+    e.preventDefault();
+    if (await submitComment(replyText, parentId)) {
+      setReplyText('');
+      setReplyingTo(null);
+      // Make sure the new reply is visible
+      setCollapsed(prev => {
+        const next = new Set(prev);
+        next.delete(parentId);
+        return next;
+      });
+    }
+  };
+
+  // Adds a comment, or a reply when parentId is set; resolves to whether it was saved
+  const submitComment = async (text: string, parentId: string | null) => {
+    const content = text.trim();
+    if (!user || !content || !sermonNoteId) return false;
 
     try {
       setSubmitting(true);
@@ -154,8 +235,11 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
       // Create optimistic comment
       const tempComment: Comment = {
         id: 'temp-' + Date.now(),
-        content: newComment.trim(),
+        parent_id: parentId,
+        content,
         created_at: new Date().toISOString(),
+        edited_at: null,
+        deleted_at: null,
         author: {
           id: user.id,
           username: profile.username,
@@ -168,30 +252,20 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
       commentLogger.logCommentAction('add', {
         noteId: sermonNoteId,
         userId: user.id,
-        content: newComment.trim()
+        content
       });
 
       setComments(prev => [tempComment, ...prev]);
-      setNewComment('');
 
       const { data, error } = await supabase
         .from('comments')
         .insert([{
           sermon_note_id: sermonNoteId,
           author_id: user.id,
-          content: newComment.trim()
+          parent_id: parentId,
+          content
         }])
-        .select(`
-          id,
-          content,
-          created_at,
-          author:profiles!comments_author_id_fkey (
-            id,
-            username,
-            full_name,
-            avatar_url
-          )
-        `)
+        .select(COMMENT_COLUMNS)
         .single();
 
       if (error) throw error;
@@ -205,27 +279,35 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
       });
 
       // Replace temp comment with real one
+      initializeCommentPraises([data.id]);
       setComments(prev => [
-        data,
-        ...prev.filter(c => c.id !== tempComment.id)
+        data as unknown as Comment,
+        ...prev.filter(c => c.id !== tempComment.id && c.id !== data.id)
       ]);
 
+      // Mentions are recorded by a trigger after the insert returns
+      if (content.match(MENTION_PATTERN)) {
+        refreshComment(data.id);
+      }
+
       onCommentAdded?.();
-      toast.success('Comment added successfully');
+      toast.success(parentId ? 'Reply added successfully' : 'Comment added successfully');
+      return true;
     } catch (error) {
       // Log error
       commentLogger.logCommentAction('add', {
         noteId: sermonNoteId,
         userId: user.id,
-        content: newComment.trim(),
+        content,
         error: error as Error
       });
 
-      logger.error('handleSubmit', 'Failed to add comment', error as Error, { sermonNoteId });
-      toast.error('Failed to add comment');
+      logger.error('submitComment', 'Failed to add comment', error as Error, { sermonNoteId, parentId });
+      toast.error(parentId ? 'Failed to add reply' : 'Failed to add comment');
       
       // Revert optimistic update
       setComments(prev => prev.filter(c => !c.id.startsWith('temp-')));
+      return false;
     } finally {
       setSubmitting(false);
     }
@@ -244,12 +326,17 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
         userId: user.id
       });
 
-      // Optimistically remove from UI
-      setComments(prev => prev.filter(c => c.id !== commentId));
+      // Optimistically remove from UI; a comment with replies stays as a placeholder
+      if (replies.has(commentId)) {
+        setComments(prev => prev.map(c =>
+          c.id === commentId ? { ...c, content: '', deleted_at: new Date().toISOString() } : c
+        ));
+      } else {
+        setComments(prev => prev.filter(c => c.id !== commentId));
+      }
 
       const { error } = await supabase.rpc('delete_comment', {
-        p_comment_id: commentId,
-        p_user_id: user.id
+        p_comment_id: commentId
       });
 
       if (error) throw error;
@@ -281,6 +368,75 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
     }
   };
 
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditText(comment.content);
+    setReplyingTo(null);
+  };
+
+  const handleEditSubmit = async (e: React.FormEvent, comment: Comment) => {
+    e.preventDefault();
+    const content = editText.trim();
+    if (!user || !content) return;
+
+    if (content === comment.content) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      setSaving(true);
+
+      const { data, error } = await supabase.rpc('edit_comment', {
+        p_comment_id: comment.id,
+        p_content: content
+      });
+
+      if (error) throw error;
+
+      // The author and replies come from the list; only the edited fields change
+      setComments(prev => prev.map(c =>
+        c.id === comment.id ? { ...c, content: data.content, edited_at: data.edited_at } : c
+      ));
+      setEditingId(null);
+
+      if (content.match(MENTION_PATTERN) || comment.mentions?.length) {
+        refreshComment(comment.id);
+      }
+      toast.success('Comment updated');
+    } catch (error) {
+      logger.error('handleEditSubmit', 'Failed to edit comment', error as Error, { commentId: comment.id });
+      toast.error('Failed to update comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleCollapsed = (commentId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(commentId)) {
+        next.delete(commentId);
+      } else {
+        next.add(commentId);
+      }
+      return next;
+    });
+  };
+
+  const openThread = (commentId: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (commentId) {
+        next.set('thread', commentId);
+      } else {
+        next.delete('thread');
+      }
+      return next;
+    }, { replace: true });
+    commentSectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
   const renderAvatar = (comment: Comment) => {
     if (comment.author.avatar_url) {
       return (
@@ -304,13 +460,217 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
     );
   };
 
+  // A comment with its replies, nested up to MAX_THREAD_DEPTH levels
+  const renderThread = (comment: Comment, depth: number): React.ReactNode => {
+    const children = replies.get(comment.id) || [];
+    const replyCount = countReplies(replies, comment.id);
+    const isCollapsed = collapsed.has(comment.id);
+    const isDeleted = Boolean(comment.deleted_at);
+    const isTemp = comment.id.startsWith('temp-');
+
+    return (
+      <div key={comment.id} className={cn(depth > 0 && "mt-4 pl-4 border-l-2 border-holy-blue-100")}>
+        <div className="flex items-start gap-3">
+          {isDeleted ? (
+            <div className="w-10 h-10 rounded-full bg-holy-blue-50 flex-shrink-0" />
+          ) : (
+            renderAvatar(comment)
+          )}
+          <div className="flex-1 min-w-0">
+            {isDeleted ? (
+              <p className="text-holy-blue-500 italic">This comment was deleted.</p>
+            ) : (
+              <>
+                <div className="flex items-baseline justify-between">
+                  <div>
+                    <h4 className="font-semibold text-holy-blue-900">
+                      {comment.author.full_name}
+                    </h4>
+                    <p className="text-sm text-holy-blue-600">@{comment.author.username}</p>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-sm text-holy-blue-500">
+                      {format(new Date(comment.created_at), 'MMM d, yyyy')}
+                      {comment.edited_at && !canViewHistory(comment) && (
+                        <span title={`Edited ${format(new Date(comment.edited_at), 'MMM d, yyyy h:mm a')}`}>
+                          {' · edited'}
+                        </span>
+                      )}
+                    </span>
+                    {comment.edited_at && canViewHistory(comment) && (
+                      <CommentHistory commentId={comment.id} editedAt={comment.edited_at} />
+                    )}
+                    {user?.id === comment.author.id && !isTemp && (
+                      <button
+                        onClick={() => startEditing(comment)}
+                        disabled={editingId === comment.id}
+                        className="text-holy-blue-500 hover:text-holy-blue-600 transition-colors"
+                        title="Edit comment"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                    )}
+                    {user?.id === comment.author.id && !isTemp && (
+                      <button
+                        onClick={() => handleDelete(comment.id)}
+                        disabled={deleting === comment.id}
+                        className={cn(
+                          "text-red-500 hover:text-red-600 transition-colors",
+                          deleting === comment.id && "opacity-50 cursor-not-allowed"
+                        )}
+                        title="Delete comment"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {editingId === comment.id ? (
+                  <form onSubmit={(e) => handleEditSubmit(e, comment)} className="mt-2 space-y-2">
+                    <label htmlFor={`edit-${comment.id}`} className="sr-only">
+                      Edit comment
+                    </label>
+                    <MentionTextarea
+                      id={`edit-${comment.id}`}
+                      value={editText}
+                      onChange={setEditText}
+                      className="w-full px-3 py-2 border border-holy-blue-200 rounded-lg resize-none focus:ring-1 focus:ring-holy-blue-500 focus:border-holy-blue-500"
+                      rows={3}
+                      autoFocus
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="btn-secondary py-2 px-4"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={!editText.trim() || saving}
+                        className="btn-primary py-2 px-4"
+                      >
+                        {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                        Save
+                      </button>
+                    </div>
+                  </form>
+                ) : (
+                  <p className="text-holy-blue-800 mt-2 whitespace-pre-wrap">
+                    <MentionText content={comment.content} mentions={comment.mentions} />
+                  </p>
+                )}
+              </>
+            )}
+
+            <div className="flex items-center gap-4 mt-2">
+              {!isDeleted && <CommentPraiseButton commentId={comment.id} />}
+              {user && !isDeleted && !isTemp && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setReplyingTo(replyingTo === comment.id ? null : comment.id);
+                    setReplyText('');
+                  }}
+                  className="inline-flex items-center gap-1 text-sm text-holy-blue-500 hover:text-holy-blue-600"
+                >
+                  <Reply className="h-4 w-4" />
+                  Reply
+                </button>
+              )}
+              {replyCount > 0 && depth + 1 < MAX_THREAD_DEPTH && (
+                <button
+                  type="button"
+                  onClick={() => toggleCollapsed(comment.id)}
+                  className="inline-flex items-center gap-1 text-sm text-holy-blue-500 hover:text-holy-blue-600"
+                  aria-expanded={!isCollapsed}
+                >
+                  {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  {isCollapsed ? 'Show' : 'Hide'} {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                </button>
+              )}
+            </div>
+
+            {replyingTo === comment.id && (
+              <form onSubmit={(e) => handleReplySubmit(e, comment.id)} className="mt-3 space-y-2">
+                <label htmlFor={`reply-${comment.id}`} className="sr-only">
+                  Reply to {comment.author.full_name}
+                </label>
+                <MentionTextarea
+                  id={`reply-${comment.id}`}
+                  value={replyText}
+                  onChange={setReplyText}
+                  placeholder={`Reply to ${comment.author.full_name}...`}
+                  className="w-full px-3 py-2 border border-holy-blue-200 rounded-lg resize-none focus:ring-1 focus:ring-holy-blue-500 focus:border-holy-blue-500"
+                  rows={2}
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    className="btn-secondary py-2 px-4"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={!replyText.trim() || submitting}
+                    className="btn-primary py-2 px-4"
+                  >
+                    {submitting ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Send className="h-4 w-4 mr-2" />
+                    )}
+                    Reply
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+
+        {children.length > 0 && (
+          depth + 1 >= MAX_THREAD_DEPTH ? (
+            <button
+              type="button"
+              onClick={() => openThread(comment.id)}
+              className="mt-3 ml-[3.25rem] text-sm font-medium text-holy-blue-500 hover:text-holy-blue-600"
+            >
+              Continue this thread ({replyCount} {replyCount === 1 ? 'reply' : 'replies'}) →
+            </button>
+          ) : !isCollapsed && (
+            <div className="ml-5">
+              {children.map(child => renderThread(child, depth + 1))}
+            </div>
+          )
+        )}
+      </div>
+    );
+  };
+
   return (
     <div ref={commentSectionRef} className="bg-white rounded-lg shadow-sm border border-holy-blue-100">
-      <div className="p-6 border-b border-holy-blue-100">
+      <div className="p-6 border-b border-holy-blue-100 flex items-center justify-between gap-4">
         <h2 className="text-xl font-semibold text-holy-blue-900 flex items-center gap-2">
           <MessageCircle className="h-5 w-5" />
           Comments
         </h2>
+        {comments.length > 1 && (
+          <label className="flex items-center gap-2 text-sm text-holy-blue-600">
+            Sort by
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as CommentSort)}
+              className="rounded-lg border border-holy-blue-200 py-1 pl-2 pr-8 text-sm focus:ring-1 focus:ring-holy-blue-500 focus:border-holy-blue-500"
+            >
+              <option value="newest">Newest</option>
+              <option value="praised">Most praised</option>
+            </select>
+          </label>
+        )}
       </div>
 
       {user && (
@@ -319,8 +679,11 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
             <div className="flex items-start gap-3">
               {renderAvatar({
                 id: 'current-user',
+                parent_id: null,
                 content: '',
                 created_at: new Date().toISOString(),
+                edited_at: null,
+                deleted_at: null,
                 author: {
                   id: user.id,
                   username: user.user_metadata.username,
@@ -330,12 +693,12 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
               })}
               <div className="flex-1">
                 <label htmlFor="comment-input" className="sr-only">Write a comment</label>
-                <textarea
+                <MentionTextarea
                   id="comment-input"
                   name="comment"
                   value={newComment}
-                  onChange={(e) => setNewComment(e.target.value)}
-                  placeholder="Write a comment..."
+                  onChange={setNewComment}
+                  placeholder="Write a comment... Type @ to mention someone"
                   className="w-full px-4 py-3 border border-holy-blue-200 rounded-lg resize-none focus:ring-1 focus:ring-holy-blue-500 focus:border-holy-blue-500"
                   rows={3}
                   aria-label="Comment text"
@@ -367,48 +730,31 @@ export function CommentSection({ sermonNoteId, onCommentAdded }: CommentSectionP
       )}
 
       {/* Comments List */}
+      {threadRoot && (
+        <div className="px-6 pt-4">
+          <button
+            type="button"
+            onClick={() => openThread(null)}
+            className="inline-flex items-center gap-1 text-sm text-holy-blue-500 hover:text-holy-blue-600"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to all comments
+          </button>
+        </div>
+      )}
       <div className="divide-y divide-holy-blue-100">
         {loading ? (
           <div className="flex items-center justify-center p-8">
             <Loader2 className="h-8 w-8 animate-spin text-holy-blue-500" />
           </div>
+        ) : threadRoot ? (
+          <div className="p-6">
+            {renderThread(threadRoot, 0)}
+          </div>
         ) : comments.length > 0 ? (
-          comments.map((comment) => (
+          topLevelComments.map((comment) => (
             <div key={comment.id} className="p-6">
-              <div className="flex items-start gap-3">
-                {renderAvatar(comment)}
-                <div className="flex-1">
-                  <div className="flex items-baseline justify-between">
-                    <div>
-                      <h4 className="font-semibold text-holy-blue-900">
-                        {comment.author.full_name}
-                      </h4>
-                      <p className="text-sm text-holy-blue-600">@{comment.author.username}</p>
-                    </div>
-                    <div className="flex items-center gap-4">
-                      <span className="text-sm text-holy-blue-500">
-                        {format(new Date(comment.created_at), 'MMM d, yyyy')}
-                      </span>
-                      {user?.id === comment.author.id && !comment.id.startsWith('temp-') && (
-                        <button
-                          onClick={() => handleDelete(comment.id)}
-                          disabled={deleting === comment.id}
-                          className={cn(
-                            "text-red-500 hover:text-red-600 transition-colors",
-                            deleting === comment.id && "opacity-50 cursor-not-allowed"
-                          )}
-                          title="Delete comment"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
-                      )}
-                    </div>
-                  </div>
-                  <p className="text-holy-blue-800 mt-2 whitespace-pre-wrap">
-                    {comment.content}
-                  </p>
-                </div>
-              </div>
+              {renderThread(comment, 0)}
             </div>
           ))
         ) : (
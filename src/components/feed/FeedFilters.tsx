@@ -1,27 +1,70 @@
 import React from 'react';
-import { Search, Filter, Clock, HelpingHand, Users, Church } from 'lucide-react';
+import { Search, Filter, Clock, Flame, HelpingHand, Users, Church, ChevronDown } from 'lucide-react';
 import { cn } from '../../utils/cn';
+import { BIBLE_BOOKS } from '../../utils/scripture';
+import { emptyFeedAdvancedFilters, type FeedAdvancedFilters } from '../../stores/feedStore';
 
 interface FeedFiltersProps {
   filter: string;
   onFilterChange: (filter: string) => void;
+  praiseWindow: string;
+  onPraiseWindowChange: (praiseWindow: string) => void;
   searchQuery: string;
   onSearchChange: (query: string) => void;
+  advancedFilters: FeedAdvancedFilters;
+  onAdvancedFiltersChange: (filters: FeedAdvancedFilters) => void;
 }
 
 export function FeedFilters({
   filter,
   onFilterChange,
+  praiseWindow,
+  onPraiseWindowChange,
   searchQuery,
   onSearchChange,
+  advancedFilters,
+  onAdvancedFiltersChange,
 }: FeedFiltersProps) {
+  const activeCount = Object.values(advancedFilters).filter(Boolean).length;
+  const [showAdvanced, setShowAdvanced] = React.useState(activeCount > 0);
+  // Edited here and only applied to the feed on submit
+  const [draftFilters, setDraftFilters] = React.useState(advancedFilters);
+
+  React.useEffect(() => {
+    setDraftFilters(advancedFilters);
+  }, [advancedFilters]);
+
+  const updateDraft = (field: keyof FeedAdvancedFilters, value: string) => {
+    setDraftFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdvancedFiltersChange({
+      pastor: draftFilters.pastor.trim(),
+      church: draftFilters.church.trim(),
+      from: draftFilters.from,
+      to: draftFilters.to,
+      book: draftFilters.book,
+      tag: draftFilters.tag.trim().toLowerCase()
+    });
+  };
+
   const filters = [
     { id: 'recent', label: 'Recent', icon: Clock },
+    { id: 'trending', label: 'Trending', icon: Flame },
     { id: 'following', label: 'Following', icon: Users },
     { id: 'praised', label: 'Most Praised', icon: HelpingHand },
     { id: 'church', label: 'Church', icon: Church },
   ];
 
+  const praiseWindows = [
+    { id: 'today', label: 'Today' },
+    { id: 'week', label: 'This Week' },
+    { id: 'month', label: 'This Month' },
+    { id: 'all', label: 'All Time' },
+  ];
+
   return (
     <div className="mb-6 space-y-4">
       <div className="relative">
@@ -51,7 +94,144 @@ export function FeedFilters({
             {label}
           </button>
         ))}
+
+        <button
+          onClick={() => setShowAdvanced(!showAdvanced)}
+          aria-expanded={showAdvanced}
+          className={cn(
+            "inline-flex items-center px-4 py-2 rounded-full text-sm font-medium transition-colors ml-auto",
+            activeCount > 0
+              ? "bg-divine-yellow-100 text-holy-blue-900"
+              : "bg-holy-blue-50 text-holy-blue-600 hover:bg-holy-blue-100"
+          )}
+        >
+          <Filter className="h-4 w-4 mr-2" />
+          Filters{activeCount > 0 && ` (${activeCount})`}
+          <ChevronDown className={cn("h-4 w-4 ml-1 transition-transform", showAdvanced && "rotate-180")} />
+        </button>
       </div>
+
+      {showAdvanced && (
+        <form
+          onSubmit={handleApply}
+          className="bg-white rounded-lg border border-holy-blue-100 p-4 grid grid-cols-1 sm:grid-cols-2 gap-4"
+        >
+          <div>
+            <label htmlFor="filter-pastor" className="block text-sm font-medium text-holy-blue-900 mb-1">
+              Pastor
+            </label>
+            <input
+              id="filter-pastor"
+              type="text"
+              value={draftFilters.pastor}
+              onChange={(e) => updateDraft('pastor', e.target.value)}
+              className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="filter-church" className="block text-sm font-medium text-holy-blue-900 mb-1">
+              Church
+            </label>
+            <input
+              id="filter-church"
+              type="text"
+              value={draftFilters.church}
+              onChange={(e) => updateDraft('church', e.target.value)}
+              className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-holy-blue-900 mb-1">Preached between</span>
+            <div className="flex items-center gap-2">
+              <input
+                type="date"
+                aria-label="Preached on or after"
+                value={draftFilters.from}
+                max={draftFilters.to || undefined}
+                onChange={(e) => updateDraft('from', e.target.value)}
+                className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm"
+              />
+              <span className="text-holy-blue-500 text-sm">and</span>
+              <input
+                type="date"
+                aria-label="Preached on or before"
+                value={draftFilters.to}
+                min={draftFilters.from || undefined}
+                onChange={(e) => updateDraft('to', e.target.value)}
+                className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="filter-book" className="block text-sm font-medium text-holy-blue-900 mb-1">
+              Bible book
+            </label>
+            <select
+              id="filter-book"
+              value={draftFilters.book}
+              onChange={(e) => updateDraft('book', e.target.value)}
+              className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm bg-white"
+            >
+              <option value="">Any book</option>
+              {BIBLE_BOOKS.map(book => (
+                <option key={book.id} value={book.id}>{book.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="filter-tag" className="block text-sm font-medium text-holy-blue-900 mb-1">
+              Tag
+            </label>
+            <input
+              id="filter-tag"
+              type="text"
+              value={draftFilters.tag}
+              onChange={(e) => updateDraft('tag', e.target.value)}
+              className="w-full rounded-md border border-holy-blue-200 px-3 py-2 text-sm"
+            />
+          </div>
+
+          <div className="flex items-end justify-end gap-2">
+            {activeCount > 0 && (
+              <button
+                type="button"
+                onClick={() => onAdvancedFiltersChange(emptyFeedAdvancedFilters)}
+                className="btn-secondary"
+              >
+                Clear
+              </button>
+            )}
+            <button type="submit" className="btn-primary">
+              Apply Filters
+            </button>
+          </div>
+        </form>
+      )}
+
+      {filter === 'praised' && (
+        <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Praised during">
+          <span className="text-sm text-holy-blue-600 mr-1">Praised</span>
+          {praiseWindows.map(({ id, label }) => (
+            <button
+              key={id}
+              onClick={() => onPraiseWindowChange(id)}
+              aria-pressed={praiseWindow === id}
+              className={cn(
+                "px-3 py-1 rounded-full text-xs font-medium transition-colors",
+                praiseWindow === id
+                  ? "bg-divine-yellow-100 text-holy-blue-900"
+                  : "text-holy-blue-600 hover:bg-holy-blue-50"
+              )}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
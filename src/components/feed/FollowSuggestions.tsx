@@ -0,0 +1,95 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../lib/supabase';
+import { FollowButton } from '../profile/FollowButton';
+import { DefaultAvatar } from '../profile/DefaultAvatar';
+import { LoadingState } from '../ui/LoadingState';
+
+interface SuggestedProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  note_count: number;
+  followed_by_count: number;
+}
+
+interface FollowSuggestionsProps {
+  onFollow?: () => void;
+}
+
+export function FollowSuggestions({ onFollow }: FollowSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<SuggestedProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadSuggestions = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_follow_suggestions', {
+          p_limit: 5
+        });
+
+        if (error) throw error;
+        setSuggestions(data || []);
+      } catch (error) {
+        console.error('Error loading follow suggestions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSuggestions();
+  }, []);
+
+  const handleFollow = (profileId: string) => {
+    setSuggestions(prev => prev.filter(profile => profile.id !== profileId));
+    onFollow?.();
+  };
+
+  if (loading) return <LoadingState />;
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="mt-6 max-w-md mx-auto text-left">
+      <h4 className="text-sm font-semibold text-holy-blue-900 mb-3">
+        People you might want to follow
+      </h4>
+      <ul className="space-y-3">
+        {suggestions.map(profile => (
+          <li
+            key={profile.id}
+            className="flex items-center gap-3 bg-white rounded-lg border border-holy-blue-100 p-3"
+          >
+            <Link to={`/profile/${profile.id}`} className="flex items-center gap-3 min-w-0 flex-1">
+              {profile.avatar_url ? (
+                <img
+                  src={profile.avatar_url}
+                  alt={profile.full_name}
+                  className="h-10 w-10 rounded-full object-cover"
+                />
+              ) : (
+                <div className="h-10 w-10 rounded-full overflow-hidden flex-shrink-0">
+                  <DefaultAvatar size={40} />
+                </div>
+              )}
+              <div className="min-w-0">
+                <p className="font-medium text-holy-blue-900 truncate">{profile.full_name}</p>
+                <p className="text-xs text-holy-blue-500 truncate">
+                  {profile.followed_by_count > 0
+                    ? `Followed by ${profile.followed_by_count} ${profile.followed_by_count === 1 ? 'person' : 'people'} you follow`
+                    : `${profile.note_count} sermon ${profile.note_count === 1 ? 'note' : 'notes'}`}
+                </p>
+              </div>
+            </Link>
+            <FollowButton
+              userId={profile.id}
+              isFollowing={false}
+              onFollowChange={() => handleFollow(profile.id)}
+              className="px-3 py-1 text-sm"
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Tag } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { getTagPath } from '../../utils/tags';
+
+interface PopularTag {
+  tag: string;
+  note_count: number;
+}
+
+// Font sizes from least to most used
+const TAG_SIZES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+export function TagCloud() {
+  const [tags, setTags] = useState<PopularTag[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadTags = async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_popular_tags', {
+          p_limit: 30
+        });
+
+        if (error) throw error;
+        setTags(data || []);
+      } catch (error) {
+        console.error('Error loading popular tags:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadTags();
+  }, []);
+
+  if (loading || tags.length === 0) return null;
+
+  // Scale on a log curve so one very popular tag doesn't flatten the rest
+  const counts = tags.map(tag => Math.log(tag.note_count));
+  const min = Math.min(...counts);
+  const range = Math.max(...counts) - min;
+
+  const getSize = (count: number) => {
+    if (range === 0) return TAG_SIZES[1];
+    const step = Math.round(((Math.log(count) - min) / range) * (TAG_SIZES.length - 1));
+    return TAG_SIZES[step];
+  };
+
+  return (
+    <div className="card p-4">
+      <h3 className="text-sm font-semibold text-holy-blue-900 mb-3 flex items-center gap-2">
+        <Tag className="h-4 w-4 text-holy-blue-500" />
+        Popular Tags
+      </h3>
+      <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+        {[...tags].sort((a, b) => a.tag.localeCompare(b.tag)).map(({ tag, note_count }) => (
+          <Link
+            key={tag}
+            to={getTagPath(tag)}
+            className={`${getSize(note_count)} text-holy-blue-600 hover:text-holy-blue-800`}
+            title={`${note_count} sermon ${note_count === 1 ? 'note' : 'notes'}`}
+          >
+            {tag}
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
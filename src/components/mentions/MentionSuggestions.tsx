@@ -0,0 +1,65 @@
+import { DefaultAvatar } from '../profile/DefaultAvatar';
+import { cn } from '../../utils/cn';
+import type { MentionProfile } from '../../utils/mentions';
+
+interface MentionSuggestionsProps {
+  profiles: MentionProfile[];
+  highlighted: number;
+  onSelect: (profile: MentionProfile) => void;
+  onHighlight: (index: number) => void;
+  className?: string;
+}
+
+export function MentionSuggestions({
+  profiles,
+  highlighted,
+  onSelect,
+  onHighlight,
+  className
+}: MentionSuggestionsProps) {
+  if (profiles.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className={cn(
+        "z-20 w-64 bg-white rounded-md shadow-lg border border-holy-blue-100 py-1 max-h-60 overflow-y-auto",
+        className
+      )}
+    >
+      {profiles.map((profile, index) => (
+        <li
+          key={profile.id}
+          role="option"
+          aria-selected={index === highlighted}
+          onMouseDown={(e) => {
+            // Keep focus in the field being typed in
+            e.preventDefault();
+            onSelect(profile);
+          }}
+          onMouseEnter={() => onHighlight(index)}
+          className={cn(
+            "flex items-center gap-2 px-3 py-2 text-sm cursor-pointer",
+            index === highlighted ? "bg-holy-blue-50 text-holy-blue-900" : "text-holy-blue-700"
+          )}
+        >
+          {profile.avatar_url ? (
+            <img
+              src={profile.avatar_url}
+              alt=""
+              className="w-6 h-6 rounded-full object-cover"
+            />
+          ) : (
+            <div className="w-6 h-6 rounded-full overflow-hidden">
+              <DefaultAvatar size={24} />
+            </div>
+          )}
+          <span className="min-w-0 truncate">
+            <span className="font-medium">{profile.full_name}</span>
+            <span className="ml-1 text-holy-blue-500">@{profile.username}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { MENTION_PATTERN, type CommentMention } from '../../utils/mentions';
+
+interface MentionTextProps {
+  content: string;
+  mentions?: CommentMention[];
+}
+
+// Plain comment text with its recorded mentions linked to profiles.
+// An "@name" that wasn't recorded as a mention stays plain text.
+export function MentionText({ content, mentions = [] }: MentionTextProps) {
+  if (mentions.length === 0) return <>{content}</>;
+
+  const profileIds = new Map(
+    mentions.map(mention => [mention.username.toLowerCase(), mention.mentioned_user_id])
+  );
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const [, before, username] = match;
+    const profileId = profileIds.get(username.toLowerCase());
+    if (!profileId) continue;
+
+    const start = (match.index ?? 0) + before.length;
+    parts.push(content.slice(lastIndex, start));
+    parts.push(
+      <Link
+        key={start}
+        to={`/profile/${profileId}`}
+        className="font-medium text-holy-blue-600 hover:text-holy-blue-700 hover:underline"
+      >
+        @{username}
+      </Link>
+    );
+    lastIndex = start + username.length + 1;
+  }
+
+  parts.push(content.slice(lastIndex));
+  return <>{parts}</>;
+}
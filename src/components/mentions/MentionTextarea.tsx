@@ -0,0 +1,130 @@
+import { useState, useEffect, useRef } from 'react';
+import { MentionSuggestions } from './MentionSuggestions';
+import {
+  getMentionQuery,
+  searchMentionProfiles,
+  type MentionProfile
+} from '../../utils/mentions';
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+interface MentionTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// A textarea that suggests profiles while an "@name" is being typed
+export function MentionTextarea({ value, onChange, onKeyDown, onBlur, ...props }: MentionTextareaProps) {
+  const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionProfile[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const query = mention?.query ?? null;
+
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const profiles = await searchMentionProfiles(query);
+        if (!cancelled) {
+          setSuggestions(profiles);
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Error loading mention suggestions:', error);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const updateMention = (textarea: HTMLTextAreaElement) => {
+    setMention(getMentionQuery(textarea.value, textarea.selectionStart));
+  };
+
+  const selectProfile = (profile: MentionProfile) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mention) return;
+
+    const caret = textarea.selectionStart;
+    const inserted = `@${profile.username} `;
+    onChange(value.slice(0, mention.start) + inserted + value.slice(caret));
+    setMention(null);
+
+    // Put the caret after the inserted name once React has rendered the new value
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (mention && suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted(prev => (prev + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted(prev => (prev - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectProfile(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(e.currentTarget)}
+        onBlur={(e) => {
+          setMention(null);
+          onBlur?.(e);
+        }}
+        role="combobox"
+        aria-expanded={Boolean(mention) && suggestions.length > 0}
+        aria-autocomplete="list"
+      />
+      {mention && (
+        <MentionSuggestions
+          profiles={suggestions}
+          highlighted={highlighted}
+          onSelect={selectProfile}
+          onHighlight={setHighlighted}
+          className="absolute left-0 top-full mt-1"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { Bell, CheckCheck, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotificationStore } from '../../stores/notificationStore';
+import { NotificationItem } from './NotificationItem';
+import type { AppNotification } from '../../utils/notifications';
+
+// Header inbox: the latest notifications with an unread badge, delivered in realtime
+export function NotificationBell() {
+  const { user } = useAuth();
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    loadNotifications,
+    markRead,
+    markAllRead,
+    subscribeToNotifications,
+    clearNotifications
+  } = useNotificationStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    loadNotifications();
+    const unsubscribe = subscribeToNotifications(userId);
+
+    return () => {
+      unsubscribe();
+      clearNotifications();
+    };
+  }, [userId, loadNotifications, subscribeToNotifications, clearNotifications]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, [isOpen]);
+
+  const handleOpen = (notification: AppNotification) => {
+    if (!notification.read) {
+      markRead([notification.id]);
+    }
+    setIsOpen(false);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllRead();
+    } catch {
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-full text-holy-blue-600/70 hover:text-holy-blue-600 hover:bg-holy-blue-50 transition-all"
+        title="Notifications"
+        aria-expanded={isOpen}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+      >
+        <Bell className="h-6 w-6" />
+        {unreadCount > 0 && (
+          <span className="absolute top-1 right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[0.625rem] font-semibold leading-[1.125rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 sm:w-96 bg-white rounded-lg shadow-lg border border-holy-blue-100 z-20">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-holy-blue-100">
+            <h3 className="font-semibold text-holy-blue-900">Notifications</h3>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                onClick={handleMarkAllRead}
+                className="inline-flex items-center gap-1 text-sm text-holy-blue-500 hover:text-holy-blue-600"
+              >
+                <CheckCheck className="h-4 w-4" />
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto divide-y divide-holy-blue-100">
+            {loading && notifications.length === 0 ? (
+              <div className="flex items-center justify-center p-6">
+                <Loader2 className="h-6 w-6 animate-spin text-holy-blue-500" />
+              </div>
+            ) : notifications.length > 0 ? (
+              notifications.map(notification => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onOpen={handleOpen}
+                />
+              ))
+            ) : (
+              <p className="p-6 text-center text-sm text-holy-blue-600">
+                You're all caught up.
+              </p>
+            )}
+          </div>
+
+          <Link
+            to="/notifications"
+            onClick={() => setIsOpen(false)}
+            className="block px-4 py-3 text-center text-sm font-medium text-holy-blue-500 hover:text-holy-blue-600 border-t border-holy-blue-100"
+          >
+            See all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { Link } from 'react-router-dom';
+import { Church } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { DefaultAvatar } from '../profile/DefaultAvatar';
+import { cn } from '../../utils/cn';
+import {
+  getNotificationMessage,
+  getNotificationPath,
+  getOtherActorsLabel,
+  isChurchNotification,
+  type AppNotification
+} from '../../utils/notifications';
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onOpen: (notification: AppNotification) => void;
+  className?: string;
+}
+
+export function NotificationItem({ notification, onOpen, className }: NotificationItemProps) {
+  const path = getNotificationPath(notification);
+  const isChurch = isChurchNotification(notification);
+  const others = getOtherActorsLabel(notification);
+
+  const body = (
+    <>
+      {isChurch || !notification.actor ? (
+        <div className="w-9 h-9 rounded-full bg-holy-blue-50 flex items-center justify-center flex-shrink-0">
+          <Church className="h-5 w-5 text-holy-blue-500" />
+        </div>
+      ) : notification.actor.avatar_url ? (
+        <img
+          src={notification.actor.avatar_url}
+          alt={notification.actor.full_name}
+          className="w-9 h-9 rounded-full object-cover flex-shrink-0"
+        />
+      ) : (
+        <div className="w-9 h-9 rounded-full overflow-hidden flex-shrink-0">
+          <DefaultAvatar size={36} />
+        </div>
+      )}
+      <div className="flex-1 min-w-0">
+        <p className="text-sm text-holy-blue-800">
+          {!isChurch && notification.actor && (
+            <span className="font-semibold text-holy-blue-900">{notification.actor.full_name} </span>
+          )}
+          {!isChurch && notification.actor && others && (
+            <span className="font-semibold text-holy-blue-900">{others} </span>
+          )}
+          {getNotificationMessage(notification)}
+        </p>
+        <p className="text-xs text-holy-blue-500 mt-0.5">
+          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+        </p>
+      </div>
+      {!notification.read && (
+        <span className="mt-1.5 h-2 w-2 rounded-full bg-holy-blue-500 flex-shrink-0" aria-label="Unread" />
+      )}
+    </>
+  );
+
+  const itemClassName = cn(
+    "flex items-start gap-3 px-4 py-3 transition-colors hover:bg-holy-blue-50",
+    !notification.read && "bg-holy-blue-50/60",
+    className
+  );
+
+  return path ? (
+    <Link to={path} onClick={() => onOpen(notification)} className={itemClassName}>
+      {body}
+    </Link>
+  ) : (
+    <button type="button" onClick={() => onOpen(notification)} className={cn(itemClassName, "w-full text-left")}>
+      {body}
+    </button>
+  );
+}
@@ -6,6 +6,7 @@ import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { ProfilePhotoUpload } from './ProfilePhotoUpload';
 import { ProfileEditor } from './ProfileEditor';
+import { NotificationSettings } from './NotificationSettings';
 
 interface Profile {
   username: string;
@@ -102,6 +103,10 @@ export function AccountSettings() {
           />
         </div>
 
+        <div className="border-t border-holy-blue-100">
+          <NotificationSettings />
+        </div>
+
         <div className="border-t border-holy-blue-100 p-6">
           <h3 className="text-lg font-semibold text-red-600 mb-4">Danger Zone</h3>
           
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Bell, Loader2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { cn } from '../../utils/cn';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_DELIVERY_OPTIONS,
+  type NotificationCategory,
+  type NotificationDelivery,
+  type NotificationPreferences
+} from '../../utils/notifications';
+
+// Per-type choice of off, in-app or the email digest; saved as soon as it changes
+export function NotificationSettings() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+  const [weeklyDigest, setWeeklyDigest] = useState(true);
+  const [saving, setSaving] = useState<NotificationCategory | 'weekly_digest' | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const loadPreferences = async () => {
+      try {
+        setLoading(true);
+
+        const { data, error } = await supabase
+          .from('notification_preferences')
+          .select('praise, comment, reply, mention, follow, church, weekly_digest')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (error) throw error;
+
+        // No row yet means every type is delivered in-app, with the weekly digest on
+        if (data) {
+          const { weekly_digest, ...categories } = data;
+          setPreferences(categories as NotificationPreferences);
+          setWeeklyDigest(weekly_digest);
+        } else {
+          setPreferences(DEFAULT_NOTIFICATION_PREFERENCES);
+          setWeeklyDigest(true);
+        }
+      } catch (error) {
+        console.error('Error loading notification preferences:', error);
+        toast.error('Failed to load notification settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreferences();
+  }, [userId]);
+
+  const handleChange = async (category: NotificationCategory, delivery: NotificationDelivery) => {
+    if (!userId || preferences[category] === delivery) return;
+
+    const previous = preferences;
+    const updated = { ...preferences, [category]: delivery };
+
+    setPreferences(updated);
+    setSaving(category);
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          ...updated,
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Failed to save notification settings');
+      setPreferences(previous);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleWeeklyDigestChange = async (enabled: boolean) => {
+    if (!userId) return;
+
+    setWeeklyDigest(enabled);
+    setSaving('weekly_digest');
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          weekly_digest: enabled,
+          updated_at: new Date().toISOString()
+        });
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Failed to save notification settings');
+      setWeeklyDigest(!enabled);
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h3 className="text-lg font-semibold text-holy-blue-900 flex items-center gap-2">
+        <Bell className="h-5 w-5 text-holy-blue-500" />
+        Notifications
+      </h3>
+      <p className="mt-1 mb-4 text-sm text-holy-blue-600">
+        Choose how you hear about each kind of activity. Digest notifications are saved for a
+        weekly email instead of the bell. Bursts of activity are grouped into one notification.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-holy-blue-500" />
+        </div>
+      ) : (
+        <div className="divide-y divide-holy-blue-100">
+          {NOTIFICATION_CATEGORIES.map(category => (
+            <div
+              key={category.key}
+              className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3"
+            >
+              <div>
+                <p className="font-medium text-holy-blue-900">{category.label}</p>
+                <p className="text-sm text-holy-blue-600">{category.description}</p>
+              </div>
+
+              <div
+                role="radiogroup"
+                aria-label={`${category.label} notifications`}
+                className="inline-flex items-center rounded-lg border border-holy-blue-200 overflow-hidden flex-shrink-0"
+              >
+                {NOTIFICATION_DELIVERY_OPTIONS.map(option => {
+                  const selected = preferences[category.key] === option.value;
+
+                  return (
+                    <button
+                      key={option.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={selected}
+                      disabled={saving !== null}
+                      onClick={() => handleChange(category.key, option.value)}
+                      className={cn(
+                        "px-3 py-1.5 text-sm transition-colors disabled:cursor-not-allowed",
+                        selected
+                          ? "bg-holy-blue-500 text-white"
+                          : "text-holy-blue-600 hover:bg-holy-blue-50"
+                      )}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          <label className="flex items-start justify-between gap-3 py-3 cursor-pointer">
+            <div>
+              <p className="font-medium text-holy-blue-900">Weekly email digest</p>
+              <p className="text-sm text-holy-blue-600">
+                Top notes from people you follow, replies to your comments, news from your
+                church and your digest notifications, once a week
+              </p>
+              {!weeklyDigest && (
+                <p className="mt-1 text-sm text-divine-yellow-700">
+                  While this is off, notifications set to Digest show up in the bell instead
+                </p>
+              )}
+            </div>
+            <input
+              type="checkbox"
+              checked={weeklyDigest}
+              disabled={saving !== null}
+              onChange={(e) => handleWeeklyDigestChange(e.target.checked)}
+              className="mt-1 h-4 w-4 rounded border-holy-blue-300 text-holy-blue-500 focus:ring-holy-blue-500"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getScripturePath, parseScriptureReference } from '../../utils/scripture';
+import {
+  TRANSLATION_NAMES,
+  getReferenceText,
+  type PassageText
+} from '../../utils/bibleText';
+
+// Long passages (whole chapters, chapter ranges) are cut off in the preview.
+// Everything renders as spans so the chip can sit inside a paragraph of the note body.
+const MAX_PREVIEW_VERSES = 40;
+
+interface ScriptureReferenceChipProps {
+  reference: string;
+  className?: string;
+}
+
+export function ScriptureReferenceChip({ reference, className }: ScriptureReferenceChipProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [passage, setPassage] = useState<PassageText | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  const indexPath = useMemo(() => {
+    const result = parseScriptureReference(reference);
+    return result.ok ? getScripturePath(result.reference.passages[0]) : null;
+  }, [reference]);
+
+  // Load the verse text the first time the preview opens
+  useEffect(() => {
+    if (!isOpen || passage || loading || error) return;
+
+    const loadPassage = async () => {
+      try {
+        setLoading(true);
+        const text = await getReferenceText(reference);
+        if (!text) {
+          setError("This reference couldn't be recognized");
+        } else if (text.verses.length === 0) {
+          setError('Verse not found');
+        } else {
+          setPassage(text);
+        }
+      } catch (err) {
+        console.error('Error loading verse text:', err);
+        setError('Failed to load verse text');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPassage();
+  }, [isOpen, passage, loading, error, reference]);
+
+  // Close a tapped-open preview when tapping elsewhere
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent | TouchEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('touchstart', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('touchstart', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const visibleVerses = passage?.verses.slice(0, MAX_PREVIEW_VERSES) || [];
+
+  return (
+    <span
+      ref={containerRef}
+      className="relative inline-block"
+      onMouseEnter={() => setIsOpen(true)}
+      onMouseLeave={() => setIsOpen(false)}
+    >
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        className={cn(
+          "inline-flex items-center px-3 py-1 rounded-full bg-holy-blue-50 text-holy-blue-600 text-sm hover:bg-holy-blue-100 transition-colors",
+          className
+        )}
+        aria-expanded={isOpen}
+      >
+        <BookOpen className="h-4 w-4 mr-1" />
+        {reference}
+      </button>
+
+      {isOpen && (
+        <span
+          role="tooltip"
+          className="absolute left-0 top-full mt-2 z-20 block w-80 max-w-[calc(100vw-2rem)] bg-white rounded-lg shadow-lg border border-holy-blue-100 p-4"
+        >
+          {loading ? (
+            <span className="flex justify-center py-2">
+              <Loader2 className="h-5 w-5 animate-spin text-holy-blue-500" />
+            </span>
+          ) : error ? (
+            <span className="block text-sm text-holy-blue-600">{error}</span>
+          ) : passage ? (
+            <>
+              <span className="block font-semibold text-holy-blue-900 mb-2">{passage.reference}</span>
+              <span className="block max-h-64 overflow-y-auto text-sm text-holy-blue-800 leading-relaxed">
+                {visibleVerses.map((verse, index) => (
+                  <span key={`${verse.chapter}:${verse.verse}`}>
+                    <sup className="text-holy-blue-500 mr-0.5">
+                      {index === 0 || verse.chapter !== visibleVerses[index - 1].chapter
+                        ? `${verse.chapter}:${verse.verse}`
+                        : verse.verse}
+                    </sup>
+                    {verse.text}{' '}
+                  </span>
+                ))}
+                {passage.verses.length > visibleVerses.length && (
+                  <span className="block mt-2 text-holy-blue-500">
+                    Showing the first {MAX_PREVIEW_VERSES} of {passage.verses.length} verses
+                  </span>
+                )}
+              </span>
+              <span className="mt-2 flex items-center justify-between gap-2 text-xs">
+                <span className="text-holy-blue-500">{TRANSLATION_NAMES[passage.translation]}</span>
+                {indexPath && (
+                  <Link
+                    to={indexPath}
+                    onMouseDown={(e) => e.preventDefault()}
+                    className="font-medium text-holy-blue-600 hover:text-holy-blue-800"
+                  >
+                    More notes on this passage
+                  </Link>
+                )}
+              </span>
+            </>
+          ) : null}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,119 @@
+import { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+import { ReactRenderer } from '@tiptap/react';
+import Mention from '@tiptap/extension-mention';
+import type { SuggestionKeyDownProps, SuggestionOptions, SuggestionProps } from '@tiptap/suggestion';
+import { MentionSuggestions } from '../mentions/MentionSuggestions';
+import { searchMentionProfiles, type MentionProfile } from '../../utils/mentions';
+
+interface MentionMenuHandle {
+  onKeyDown: (props: SuggestionKeyDownProps) => boolean;
+}
+
+type MentionMenuProps = SuggestionProps<MentionProfile>;
+
+const MentionMenu = forwardRef<MentionMenuHandle, MentionMenuProps>(({ items, command }, ref) => {
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => setHighlighted(0), [items]);
+
+  const selectProfile = (profile: MentionProfile) => {
+    command({ id: profile.id, label: profile.username });
+  };
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: ({ event }) => {
+      if (items.length === 0) return false;
+
+      if (event.key === 'ArrowDown') {
+        setHighlighted(prev => (prev + 1) % items.length);
+        return true;
+      }
+      if (event.key === 'ArrowUp') {
+        setHighlighted(prev => (prev - 1 + items.length) % items.length);
+        return true;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        selectProfile(items[highlighted]);
+        return true;
+      }
+      return false;
+    }
+  }));
+
+  return (
+    <MentionSuggestions
+      profiles={items}
+      highlighted={highlighted}
+      onSelect={selectProfile}
+      onHighlight={setHighlighted}
+    />
+  );
+});
+
+MentionMenu.displayName = 'MentionMenu';
+
+// Places the menu under the "@name" being typed
+const positionMenu = (element: HTMLElement, clientRect?: (() => DOMRect | null) | null) => {
+  const rect = clientRect?.();
+  if (!rect) return;
+
+  element.style.position = 'absolute';
+  element.style.left = `${rect.left + window.scrollX}px`;
+  element.style.top = `${rect.bottom + window.scrollY + 4}px`;
+  element.style.zIndex = '50';
+};
+
+const mentionSuggestion: Omit<SuggestionOptions<MentionProfile>, 'editor'> = {
+  items: async ({ query }) => {
+    try {
+      return await searchMentionProfiles(query);
+    } catch (error) {
+      console.error('Error loading mention suggestions:', error);
+      return [];
+    }
+  },
+
+  render: () => {
+    let renderer: ReactRenderer<MentionMenuHandle, MentionMenuProps> | null = null;
+
+    return {
+      onStart: props => {
+        renderer = new ReactRenderer(MentionMenu, { props, editor: props.editor });
+        document.body.appendChild(renderer.element);
+        positionMenu(renderer.element as HTMLElement, props.clientRect);
+      },
+
+      onUpdate: props => {
+        renderer?.updateProps(props);
+        if (renderer) {
+          positionMenu(renderer.element as HTMLElement, props.clientRect);
+        }
+      },
+
+      onKeyDown: props => {
+        if (props.event.key === 'Escape') {
+          renderer?.element.remove();
+          return true;
+        }
+        return renderer?.ref?.onKeyDown(props) ?? false;
+      },
+
+      onExit: () => {
+        renderer?.element.remove();
+        renderer?.destroy();
+        renderer = null;
+      }
+    };
+  }
+};
+
+/**
+ * Inline "@username" node for the note body, picked from profile suggestions.
+ * Stored as { type: 'mention', attrs: { id: '<profile id>', label: 'username' } }.
+ */
+export const SermonMention = Mention.configure({
+  HTMLAttributes: {
+    class: 'font-medium text-holy-blue-600'
+  },
+  suggestion: mentionSuggestion
+});
@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { format } from 'date-fns';
+import { History, RotateCcw, Loader2, Plus, Minus } from 'lucide-react';
+import { toast } from 'sonner';
+import type { JSONContent } from '@tiptap/react';
+import { supabase } from '../../lib/supabase';
+import { cn } from '../../utils/cn';
+import { diffDocumentBlocks, getBlockPlainText } from '../../utils/revisionDiff';
+
+interface Revision {
+  id: string;
+  revision_number: number;
+  saved_by: string | null;
+  saved_by_role: string;
+  title: string;
+  content: JSONContent;
+  scripture_references: string[];
+  status: string;
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  created_at: string;
+  editor: {
+    username: string;
+    full_name: string;
+  } | null;
+}
+
+interface RevisionHistoryProps {
+  noteId: string;
+  canRestore: boolean;
+  onRestored?: () => void;
+}
+
+const METADATA_FIELDS = [
+  { key: 'pastor_name', label: 'Pastor' },
+  { key: 'church_name', label: 'Church' },
+  { key: 'preached_on', label: 'Date preached' },
+  { key: 'service', label: 'Service' }
+] as const;
+
+const getSavedByLabel = (revision: Revision) => {
+  if (revision.editor) return revision.editor.full_name || `@${revision.editor.username}`;
+  if (revision.saved_by_role === 'backfill') return 'Original version';
+  return `Database (${revision.saved_by_role})`;
+};
+
+export function RevisionHistory({ noteId, canRestore, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('sermon_note_revisions')
+        .select(`
+          id,
+          revision_number,
+          saved_by,
+          saved_by_role,
+          title,
+          content,
+          scripture_references,
+          status,
+          pastor_name,
+          church_name,
+          preached_on,
+          service,
+          created_at,
+          editor:profiles!sermon_note_revisions_saved_by_fkey (
+            username,
+            full_name
+          )
+        `)
+        .eq('sermon_note_id', noteId)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+
+      const loaded = (data || []) as unknown as Revision[];
+      setRevisions(loaded);
+      setCompareId(loaded[0]?.id ?? null);
+      setBaseId(loaded[1]?.id ?? loaded[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast.error('Failed to load revision history');
+    } finally {
+      setLoading(false);
+    }
+  }, [noteId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleRestore = async (revision: Revision) => {
+    try {
+      setRestoring(revision.id);
+      const { error } = await supabase.rpc('restore_sermon_note_revision', {
+        p_revision_id: revision.id
+      });
+
+      if (error) throw error;
+
+      toast.success(`Restored revision ${revision.revision_number}`);
+      await loadRevisions();
+      onRestored?.();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const base = revisions.find(revision => revision.id === baseId);
+  const compare = revisions.find(revision => revision.id === compareId);
+
+  const metadataChanges = base && compare
+    ? METADATA_FIELDS.filter(({ key }) => base[key] !== compare[key])
+    : [];
+
+  const blockDiff = useMemo(
+    () => (base && compare ? diffDocumentBlocks(base.content, compare.content) : []),
+    [base, compare]
+  );
+
+  const renderRevisionOption = (revision: Revision) => (
+    <option key={revision.id} value={revision.id}>
+      Revision {revision.revision_number} · {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+    </option>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-holy-blue-500" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-holy-blue-100">
+      <div className="p-6 border-b border-holy-blue-100">
+        <h2 className="text-xl font-semibold text-holy-blue-900 flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </h2>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="p-8 text-center text-holy-blue-600">
+          No revisions have been recorded for this note.
+        </div>
+      ) : (
+        <div className="grid md:grid-cols-3 divide-y md:divide-y-0 md:divide-x divide-holy-blue-100">
+          {/* Revision List */}
+          <ol className="max-h-[32rem] overflow-y-auto divide-y divide-holy-blue-100">
+            {revisions.map((revision, index) => (
+              <li
+                key={revision.id}
+                className={cn(
+                  "p-4",
+                  (revision.id === baseId || revision.id === compareId) && "bg-holy-blue-50"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <button
+                    onClick={() => {
+                      setCompareId(revision.id);
+                      setBaseId(revisions[index + 1]?.id ?? revision.id);
+                    }}
+                    className="text-left"
+                  >
+                    <p className="font-semibold text-holy-blue-900">
+                      Revision {revision.revision_number}
+                      {index === 0 && (
+                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-holy-blue-100 text-holy-blue-600">
+                          Current
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-holy-blue-600">
+                      {format(new Date(revision.created_at), 'MMM d, yyyy h:mm a')}
+                    </p>
+                    <p className="text-xs text-holy-blue-500">{getSavedByLabel(revision)}</p>
+                  </button>
+                  {canRestore && index > 0 && (
+                    <button
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoring !== null}
+                      className={cn(
+                        "p-2 text-holy-blue-500 hover:text-holy-blue-600 rounded-full hover:bg-holy-blue-100 transition-colors",
+                        restoring !== null && "opacity-50 cursor-not-allowed"
+                      )}
+                      title={`Restore revision ${revision.revision_number}`}
+                    >
+                      {restoring === revision.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+
+          {/* Diff View */}
+          <div className="md:col-span-2 p-4 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-holy-blue-700">
+              <span>Compare</span>
+              <select
+                value={baseId ?? ''}
+                onChange={(e) => setBaseId(e.target.value)}
+                className="rounded-md border border-holy-blue-200 px-2 py-1"
+                aria-label="Older revision"
+              >
+                {revisions.map(renderRevisionOption)}
+              </select>
+              <span>with</span>
+              <select
+                value={compareId ?? ''}
+                onChange={(e) => setCompareId(e.target.value)}
+                className="rounded-md border border-holy-blue-200 px-2 py-1"
+                aria-label="Newer revision"
+              >
+                {revisions.map(renderRevisionOption)}
+              </select>
+            </div>
+
+            {base && compare && base.title !== compare.title && (
+              <div className="text-sm">
+                <p className="text-red-700 bg-red-50 px-3 py-1 rounded line-through">{base.title}</p>
+                <p className="text-green-700 bg-green-50 px-3 py-1 rounded mt-1">{compare.title}</p>
+              </div>
+            )}
+
+            {base && compare && metadataChanges.length > 0 && (
+              <dl className="text-sm space-y-1">
+                {metadataChanges.map(({ key, label }) => (
+                  <div key={key} className="flex flex-wrap items-center gap-2">
+                    <dt className="font-medium text-holy-blue-900">{label}:</dt>
+                    <dd className="text-red-700 bg-red-50 px-2 rounded line-through">{base[key] || 'None'}</dd>
+                    <dd className="text-green-700 bg-green-50 px-2 rounded">{compare[key] || 'None'}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+
+            {base && compare && base.id === compare.id ? (
+              <p className="text-sm text-holy-blue-600">Select two different revisions to see what changed.</p>
+            ) : blockDiff.every(entry => entry.change === 'unchanged') ? (
+              <p className="text-sm text-holy-blue-600">The note body is the same in both revisions.</p>
+            ) : (
+              <div className="space-y-1 max-h-[28rem] overflow-y-auto">
+                {blockDiff.map((entry, index) => (
+                  <div
+                    key={index}
+                    className={cn(
+                      "flex items-start gap-2 px-3 py-2 rounded text-sm whitespace-pre-wrap",
+                      entry.change === 'added' && "bg-green-50 text-green-800",
+                      entry.change === 'removed' && "bg-red-50 text-red-800 line-through",
+                      entry.change === 'unchanged' && "text-holy-blue-700"
+                    )}
+                  >
+                    <span className="w-4 flex-shrink-0 mt-0.5">
+                      {entry.change === 'added' && <Plus className="h-4 w-4" />}
+                      {entry.change === 'removed' && <Minus className="h-4 w-4" />}
+                    </span>
+                    <span className={cn(entry.block.type === 'heading' && "font-semibold")}>
+                      {getBlockPlainText(entry.block) || <em className="opacity-60">Empty {entry.block.type}</em>}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
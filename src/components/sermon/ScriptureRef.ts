@@ -0,0 +1,86 @@
+import { Node, InputRule, mergeAttributes } from '@tiptap/react';
+import { parseScriptureReference } from '../../utils/scripture';
+
+// A reference with at least chapter:verse, followed by the character just typed.
+// The book part may pick up a few words of the preceding sentence; those are
+// trimmed off in the handler until the rest parses.
+const REFERENCE_INPUT_REGEX =
+  /((?:[1-3]\s?)?[A-Za-z]+\.?(?:\s(?:of\s)?[A-Za-z]+\.?){0,3}\s?\d{1,3}[:.]\d{1,3}(?:[-–]\d{1,3}(?:[:.]\d{1,3})?)?(?:,\s?\d{1,3}(?:[-–]\d{1,3})?)*)([\s,;)!?])$/;
+
+/**
+ * Inline, atomic node for a scripture reference in the note body.
+ * Stored as { type: 'scriptureRef', attrs: { reference: 'John 3:16', keys: ['JHN.3.16'] } }.
+ */
+export const ScriptureRef = Node.create({
+  name: 'scriptureRef',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      reference: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-scripture-ref') || '',
+        renderHTML: attributes => ({ 'data-scripture-ref': attributes.reference })
+      },
+      keys: {
+        default: [],
+        parseHTML: element => (element.getAttribute('data-keys') || '').split(' ').filter(Boolean),
+        renderHTML: attributes => ({ 'data-keys': (attributes.keys as string[]).join(' ') })
+      }
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-scripture-ref]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes(HTMLAttributes, {
+        class: 'inline-flex items-center px-2 rounded-full bg-holy-blue-50 text-holy-blue-600 text-sm'
+      }),
+      node.attrs.reference
+    ];
+  },
+
+  renderText({ node }) {
+    return node.attrs.reference;
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: REFERENCE_INPUT_REGEX,
+        handler: ({ state, range, match }) => {
+          const [, candidate, trailing] = match;
+          const words = candidate.split(' ');
+
+          // Drop leading words until what's left is a reference
+          for (let skip = 0; skip < words.length; skip++) {
+            const text = words.slice(skip).join(' ');
+            // Only capitalized books, so "service is 10:30" isn't read as Isaiah
+            if (!/^(?:[1-3]\s?)?[A-Z]/.test(text)) continue;
+
+            const result = parseScriptureReference(text);
+            if (!result.ok) continue;
+
+            const from = range.from + (candidate.length - text.length);
+            const node = this.type.create({
+              reference: result.reference.display,
+              keys: result.reference.keys
+            });
+
+            state.tr.replaceWith(from, range.to, [node, state.schema.text(trailing)]);
+            return;
+          }
+
+          return null;
+        }
+      })
+    ];
+  }
+});
@@ -1,6 +1,6 @@
 import React, { useEffect } from 'react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { MessageCircle, HelpingHand } from 'lucide-react';
+import { MessageCircle, HelpingHand, Lock, Link2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { DefaultAvatar } from '../profile/DefaultAvatar';
 import { cn } from '../../utils/cn';
@@ -9,12 +9,18 @@ import { useCommentStore } from '../../stores/commentStore';
 import { useAuth } from '../../contexts/AuthContext';
 import { toast } from 'sonner';
 import { ShareButton } from '../share/ShareButton';
+import { ScriptureReferenceChip } from '../scripture/ScriptureReferenceChip';
+import { getBlockPlainText } from '../../utils/revisionDiff';
+import { formatPreachedOn, type SermonNoteVisibility } from '../../utils/sermonContent';
+import { getTagPath } from '../../utils/tags';
 
 interface SermonNote {
   id: string;
   title: string;
   content: any;
   created_at: string;
+  visibility?: SermonNoteVisibility;
+  share_token?: string | null;
   author: {
     id: string;
     username: string;
@@ -25,8 +31,19 @@ interface SermonNote {
   comment_count: number;
   user_has_praised: boolean;
   scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags?: string[];
 }
 
+const VISIBILITY_BADGES = {
+  church: { label: 'Church only', title: 'Only visible to church members', icon: Lock },
+  private: { label: 'Private', title: 'Only visible to you', icon: Lock },
+  unlisted: { label: 'Unlisted', title: 'Only visible to people with the link', icon: Link2 }
+};
+
 interface SermonCardProps {
   note: SermonNote;
 }
@@ -94,17 +111,12 @@ export function SermonCard({ note }: SermonCardProps) {
   const getTextContent = (content: any): string => {
     try {
       if (!content || !content.content) return '';
-      
-      // Filter out pastor and church info from preview
+
       const contentBlocks = content.content
-        .filter((block: any) => block.type === 'paragraph')
-        .filter((block: any) => {
-          const text = block.content?.[0]?.text || '';
-          return !text.startsWith('Pastor:') && !text.startsWith('Church:');
-        });
+        .filter((block: any) => block.type === 'paragraph');
 
       return contentBlocks
-        .map((block: any) => block.content?.[0]?.text || '')
+        .map((block: any) => getBlockPlainText(block))
         .join(' ')
         .slice(0, 200) + '...';
     } catch (e) {
@@ -113,35 +125,16 @@ export function SermonCard({ note }: SermonCardProps) {
     }
   };
 
-  // Extract pastor and church info
-  const getSermonInfo = (content: any): { pastor: string; church: string } => {
-    try {
-      if (!content || !content.content) return { pastor: '', church: '' };
-
-      const info = {
-        pastor: '',
-        church: ''
-      };
-
-      content.content.forEach((block: any) => {
-        if (block.type === 'paragraph') {
-          const text = block.content?.[0]?.text || '';
-          if (text.startsWith('Pastor:')) {
-            info.pastor = text.replace('Pastor:', '').trim();
-          } else if (text.startsWith('Church:')) {
-            info.church = text.replace('Church:', '').trim();
-          }
-        }
-      });
-
-      return info;
-    } catch (e) {
-      console.error('Error extracting sermon info:', e);
-      return { pastor: '', church: '' };
-    }
-  };
+  const visibilityBadge = note.visibility && note.visibility !== 'public'
+    ? VISIBILITY_BADGES[note.visibility]
+    : null;
 
-  const sermonInfo = getSermonInfo(note.content);
+  const sermonInfo = [
+    note.pastor_name,
+    note.church_name,
+    note.preached_on && formatPreachedOn(note.preached_on),
+    note.service
+  ].filter(Boolean);
 
   return (
     <article className="bg-white rounded-lg shadow-sm border border-holy-blue-100 overflow-hidden hover:shadow-md transition-shadow">
@@ -167,9 +160,20 @@ export function SermonCard({ note }: SermonCardProps) {
               <p className="text-holy-blue-600 text-sm">@{note.author.username}</p>
             </div>
           </Link>
-          <span className="ml-auto text-sm text-holy-blue-500">
-            {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
-          </span>
+          <div className="ml-auto flex items-center gap-3">
+            {visibilityBadge && (
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-holy-blue-50 text-xs font-medium text-holy-blue-700"
+                title={visibilityBadge.title}
+              >
+                <visibilityBadge.icon className="h-3 w-3" />
+                {visibilityBadge.label}
+              </span>
+            )}
+            <span className="text-sm text-holy-blue-500">
+              {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+            </span>
+          </div>
         </div>
 
         {/* Content section */}
@@ -178,14 +182,11 @@ export function SermonCard({ note }: SermonCardProps) {
             {note.title}
           </h2>
           {/* Sermon Info */}
-          {(sermonInfo.pastor || sermonInfo.church) && (
+          {sermonInfo.length > 0 && (
             <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-holy-blue-600 mb-3">
-              {sermonInfo.pastor && (
-                <span>{sermonInfo.pastor}</span>
-              )}
-              {sermonInfo.church && (
-                <span>{sermonInfo.church}</span>
-              )}
+              {sermonInfo.map(info => (
+                <span key={info}>{info}</span>
+              ))}
             </div>
           )}
           <p className="text-holy-blue-700 line-clamp-3">
@@ -193,6 +194,30 @@ export function SermonCard({ note }: SermonCardProps) {
           </p>
         </Link>
 
+        {/* Scripture References */}
+        {note.scripture_references?.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-4">
+            {note.scripture_references.map((reference, index) => (
+              <ScriptureReferenceChip key={index} reference={reference} />
+            ))}
+          </div>
+        )}
+
+        {/* Tags */}
+        {note.tags && note.tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {note.tags.map(tag => (
+              <Link
+                key={tag}
+                to={getTagPath(tag)}
+                className="text-sm text-holy-blue-500 hover:text-holy-blue-700"
+              >
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+
         {/* Actions section */}
         <div className="flex items-center gap-6 pt-4 mt-4 border-t border-holy-blue-100">
           <button
@@ -229,6 +254,8 @@ export function SermonCard({ note }: SermonCardProps) {
           <ShareButton
             noteId={note.id}
             noteTitle={note.title}
+            isUnlisted={note.visibility === 'unlisted'}
+            shareToken={note.share_token}
             className="ml-auto"
           />
         </div>
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { JSONContent } from '@tiptap/react';
+import { ScriptureReferenceChip } from '../scripture/ScriptureReferenceChip';
+
+interface SermonNoteContentProps {
+  content: JSONContent | null;
+}
+
+// Text runs, line breaks, linked scripture references and mentions inside a block
+const renderInline = (nodes: JSONContent[] | undefined) =>
+  nodes?.map((node, index) => {
+    switch (node.type) {
+      case 'text': {
+        let text: React.ReactNode = node.text;
+        node.marks?.forEach(mark => {
+          if (mark.type === 'bold') text = <strong>{text}</strong>;
+          if (mark.type === 'italic') text = <em>{text}</em>;
+        });
+        return <React.Fragment key={index}>{text}</React.Fragment>;
+      }
+      case 'hardBreak':
+        return <br key={index} />;
+      case 'scriptureRef':
+        return (
+          <ScriptureReferenceChip
+            key={index}
+            reference={node.attrs?.reference}
+            className="px-2 py-0 align-baseline"
+          />
+        );
+      case 'mention':
+        return (
+          <Link
+            key={index}
+            to={`/profile/${node.attrs?.id}`}
+            className="font-medium text-holy-blue-600 hover:text-holy-blue-700 no-underline hover:underline"
+          >
+            @{node.attrs?.label}
+          </Link>
+        );
+      default:
+        return null;
+    }
+  });
+
+const renderListItems = (list: JSONContent) =>
+  list.content?.map((item, itemIndex) => (
+    <li key={itemIndex}>
+      {item.content?.map((child, childIndex) => (
+        <React.Fragment key={childIndex}>{renderInline(child.content)}</React.Fragment>
+      ))}
+    </li>
+  ));
+
+// Renders a stored sermon note document as read-only content
+export function SermonNoteContent({ content }: SermonNoteContentProps) {
+  if (!content || !content.content) return null;
+
+  return (
+    <>
+      {content.content.map((block, index) => {
+        switch (block.type) {
+          case 'paragraph':
+            return (
+              <p key={index} className="mb-4">
+                {renderInline(block.content)}
+              </p>
+            );
+          case 'heading': {
+            const HeadingTag = `h${block.attrs?.level}` as keyof JSX.IntrinsicElements;
+            return (
+              <HeadingTag key={index} className="font-bold mb-4">
+                {renderInline(block.content)}
+              </HeadingTag>
+            );
+          }
+          case 'bulletList':
+            return (
+              <ul key={index} className="list-disc pl-6 mb-4">
+                {renderListItems(block)}
+              </ul>
+            );
+          case 'orderedList':
+            return (
+              <ol key={index} className="list-decimal pl-6 mb-4">
+                {renderListItems(block)}
+              </ol>
+            );
+          default:
+            return null;
+        }
+      })}
+    </>
+  );
+}
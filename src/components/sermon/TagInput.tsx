@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef } from 'react';
+import { X as Close, Tag } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { cn } from '../../utils/cn';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTag } from '../../utils/tags';
+
+const SUGGESTION_DEBOUNCE_MS = 200;
+
+interface TagSuggestion {
+  tag: string;
+  note_count: number;
+}
+
+interface TagInputProps {
+  id?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+export function TagInput({ id, tags, onChange }: TagInputProps) {
+  const [input, setInput] = useState('');
+  const [suggestions, setSuggestions] = useState<TagSuggestion[]>([]);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const prefix = normalizeTag(input);
+  const isFull = tags.length >= MAX_TAGS;
+
+  // Popular tags starting with what's typed; the most popular overall while the box is empty
+  useEffect(() => {
+    if (!showSuggestions) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const { data, error } = await supabase.rpc('get_popular_tags', {
+          p_prefix: prefix || null,
+          p_limit: 8
+        });
+
+        if (error) throw error;
+        if (!cancelled) {
+          setSuggestions(((data || []) as TagSuggestion[]).filter(suggestion => !tags.includes(suggestion.tag)));
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Error loading tag suggestions:', error);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [prefix, showSuggestions, tags]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setShowSuggestions(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag) && !isFull) {
+      onChange([...tags, tag]);
+    }
+    setInput('');
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const visibleSuggestions = showSuggestions ? suggestions : [];
+
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      const suggestion = visibleSuggestions[highlighted];
+      // Enter picks the highlighted suggestion only when it extends what was typed
+      addTag(e.key === 'Enter' && suggestion && input.trim() ? suggestion.tag : input);
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown' && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev + 1) % visibleSuggestions.length);
+    } else if (e.key === 'ArrowUp' && visibleSuggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted(prev => (prev - 1 + visibleSuggestions.length) % visibleSuggestions.length);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="mt-1 flex flex-wrap items-center gap-2 rounded-md border border-holy-blue-200 px-3 py-2 focus-within:ring-2 focus-within:ring-holy-blue-500">
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-holy-blue-50 text-holy-blue-700 text-sm"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-holy-blue-400 hover:text-holy-blue-600"
+              aria-label={`Remove tag ${tag}`}
+            >
+              <Close className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setShowSuggestions(true);
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => input.trim() && addTag(input)}
+          onKeyDown={handleKeyDown}
+          maxLength={MAX_TAG_LENGTH + 1}
+          disabled={isFull}
+          className="flex-1 min-w-[8rem] border-none p-0 focus:ring-0 text-sm"
+          placeholder={isFull ? `Up to ${MAX_TAGS} tags` : tags.length ? 'Add another tag' : 'e.g., grace, forgiveness'}
+          role="combobox"
+          aria-expanded={showSuggestions && suggestions.length > 0}
+          aria-autocomplete="list"
+        />
+      </div>
+
+      {showSuggestions && suggestions.length > 0 && !isFull && (
+        <ul
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white rounded-md shadow-lg border border-holy-blue-100 py-1 max-h-60 overflow-y-auto"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.tag}
+              role="option"
+              aria-selected={index === highlighted}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                addTag(suggestion.tag);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                "flex items-center justify-between px-3 py-2 text-sm cursor-pointer",
+                index === highlighted ? "bg-holy-blue-50 text-holy-blue-900" : "text-holy-blue-700"
+              )}
+            >
+              <span className="flex items-center gap-2">
+                <Tag className="h-3 w-3 text-holy-blue-400" />
+                {suggestion.tag}
+              </span>
+              <span className="text-xs text-holy-blue-400">
+                {suggestion.note_count} {suggestion.note_count === 1 ? 'note' : 'notes'}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useCallback } from 'react';
-import { Share2, Copy, Facebook, Twitter, Mail, Link2, Code, X, ExternalLink, Linkedin } from 'lucide-react';
+import { Share2, Copy, Facebook, Twitter, Mail, Link2, Code, X, ExternalLink, Linkedin, RefreshCw, Ban } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '../../utils/cn';
 import { shareContent, generateEmbedCode } from '../../utils/share';
@@ -11,6 +11,11 @@ interface ShareButtonProps {
   description?: string;
   image?: string;
   variant?: 'default' | 'compact';
+  // Unlisted notes are shared by their secret link, which is null once revoked
+  isUnlisted?: boolean;
+  shareToken?: string | null;
+  onRegenerateLink?: () => Promise<void>;
+  onRevokeLink?: () => Promise<void>;
 }
 
 export function ShareButton({ 
@@ -19,22 +24,34 @@ export function ShareButton({
   className,
   description,
   image,
-  variant = 'default'
+  variant = 'default',
+  isUnlisted = false,
+  shareToken = null,
+  onRegenerateLink,
+  onRevokeLink
 }: ShareButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'social' | 'link' | 'embed'>('social');
   const [isCopying, setIsCopying] = useState(false);
+  const [isUpdatingLink, setIsUpdatingLink] = useState(false);
+
+  const sharePath = isUnlisted
+    ? shareToken && `/n/${shareToken}`
+    : `/sermon-notes/${noteId}`;
 
   // Memoize share URL to prevent unnecessary recalculations
   const shareUrl = React.useMemo(() => {
-    const url = new URL(`/sermon-notes/${noteId}`, window.location.origin);
+    if (!sharePath) return '';
+    const url = new URL(sharePath, window.location.origin);
     return url.toString();
-  }, [noteId]);
+  }, [sharePath]);
 
   const handleShare = useCallback(async (platform?: string) => {
+    if (!sharePath) return;
+
     try {
       const shareData = {
-        path: `/sermon-notes/${noteId}`,
+        path: sharePath,
         metadata: {
           title: noteTitle,
           description: description || `Check out this sermon note: ${noteTitle}`,
@@ -65,7 +82,7 @@ export function ShareButton({
         }
       }
     }
-  }, [noteId, noteTitle, description, image, shareUrl]);
+  }, [sharePath, noteTitle, description, image, shareUrl]);
 
   const copyToClipboard = useCallback(async (text: string, type: 'link' | 'embed') => {
     try {
@@ -95,7 +112,20 @@ export function ShareButton({
   }, []);
 
   const embedCode = React.useMemo(() => 
-    generateEmbedCode(`/sermon-notes/${noteId}`), [noteId]);
+    sharePath ? generateEmbedCode(sharePath) : '', [sharePath]);
+
+  const updateLink = useCallback(async (update: () => Promise<void>, message: string) => {
+    try {
+      setIsUpdatingLink(true);
+      await update();
+      toast.success(message);
+    } catch (error) {
+      console.error('Error updating share link:', error);
+      toast.error('Failed to update the share link. Please try again.');
+    } finally {
+      setIsUpdatingLink(false);
+    }
+  }, []);
 
   // Handle escape key to close modal
   React.useEffect(() => {
@@ -158,7 +188,7 @@ export function ShareButton({
             </div>
 
             {/* Tabs */}
-            <div className="flex border-b border-holy-blue-100" role="tablist">
+            <div className={cn("flex border-b border-holy-blue-100", !sharePath && "hidden")} role="tablist">
               {(['social', 'link', 'embed'] as const).map((tab) => (
                 <button
                   key={tab}
@@ -180,7 +210,25 @@ export function ShareButton({
 
             {/* Content */}
             <div className="p-4">
-              {activeTab === 'social' && (
+              {!sharePath && (
+                <div className="space-y-4">
+                  <p className="text-sm text-holy-blue-600">
+                    This note is unlisted and its link has been revoked, so nobody else can open it.
+                  </p>
+                  {onRegenerateLink && (
+                    <button
+                      onClick={() => updateLink(onRegenerateLink, 'New link created')}
+                      disabled={isUpdatingLink}
+                      className="btn-primary inline-flex items-center"
+                    >
+                      <RefreshCw className={cn("h-4 w-4 mr-2", isUpdatingLink && "animate-spin")} />
+                      Create a new link
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {sharePath && activeTab === 'social' && (
                 <div 
                   className="grid grid-cols-2 gap-4"
                   role="tabpanel"
@@ -226,7 +274,7 @@ export function ShareButton({
                 </div>
               )}
 
-              {activeTab === 'link' && (
+              {sharePath && activeTab === 'link' && (
                 <div 
                   className="space-y-4"
                   role="tabpanel"
@@ -250,12 +298,38 @@ export function ShareButton({
                     </button>
                   </div>
                   <p className="text-sm text-holy-blue-600">
-                    Share this link directly with others to let them view this sermon note.
+                    {isUnlisted
+                      ? 'Anyone with this link can read this note. It stays out of feeds and search.'
+                      : 'Share this link directly with others to let them view this sermon note.'}
                   </p>
+                  {isUnlisted && (onRegenerateLink || onRevokeLink) && (
+                    <div className="flex items-center gap-4 pt-2 border-t border-holy-blue-100">
+                      {onRegenerateLink && (
+                        <button
+                          onClick={() => updateLink(onRegenerateLink, 'New link created; the old one no longer works')}
+                          disabled={isUpdatingLink}
+                          className="inline-flex items-center gap-2 text-sm text-holy-blue-500 hover:text-holy-blue-600 disabled:opacity-50"
+                        >
+                          <RefreshCw className="h-4 w-4" />
+                          New link
+                        </button>
+                      )}
+                      {onRevokeLink && (
+                        <button
+                          onClick={() => updateLink(onRevokeLink, 'Link revoked')}
+                          disabled={isUpdatingLink}
+                          className="inline-flex items-center gap-2 text-sm text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          <Ban className="h-4 w-4" />
+                          Revoke link
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               )}
 
-              {activeTab === 'embed' && (
+              {sharePath && activeTab === 'embed' && (
                 <div 
                   className="space-y-4"
                   role="tabpanel"
@@ -3,6 +3,7 @@ import { supabase } from '../lib/supabase';
 import type { User } from '@supabase/supabase-js';
 import { toast } from 'sonner';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useDraftStore } from '../stores/draftStore';
 
 interface AuthContextType {
   user: User | null;
@@ -99,8 +100,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
       if (mounted) {
         if (!session) {
-          // Clear all local storage on logout
+          // Clear all local storage on logout, and the drafts already loaded from it
           localStorage.clear();
+          useDraftStore.getState().clearLocalDrafts();
           setUser(null);
           setUserType(null);
           navigate('/');
@@ -289,8 +291,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const { error } = await supabase.auth.signOut();
       if (error) throw error;
       
-      // Clear all local storage
+      // Clear all local storage, and the drafts already loaded from it
       localStorage.clear();
+      useDraftStore.getState().clearLocalDrafts();
       
       // Navigate to home page
       navigate('/', { replace: true });
@@ -301,6 +304,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(null);
       setUserType(null);
       localStorage.clear();
+      useDraftStore.getState().clearLocalDrafts();
       navigate('/', { replace: true });
     }
   };
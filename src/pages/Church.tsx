@@ -1,9 +1,10 @@
-import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, Link } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import { Users, Calendar, BookOpen } from 'lucide-react';
 import { LoadingState } from '../components/ui/LoadingState';
 import { toast } from 'sonner';
+import { formatPreachedOn } from '../utils/sermonContent';
 
 interface ChurchData {
   id: string;
@@ -24,19 +25,22 @@ interface ChurchData {
   };
 }
 
+interface ChurchSermonNote {
+  id: string;
+  title: string;
+  pastor_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+}
+
 export default function Church() {
   const { id } = useParams();
   const [church, setChurch] = useState<ChurchData | null>(null);
+  const [recentNotes, setRecentNotes] = useState<ChurchSermonNote[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (id) {
-      loadChurch();
-    }
-  }, [id]);
-
-  const loadChurch = async () => {
+  const loadChurch = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('churches')
@@ -70,7 +74,33 @@ export default function Church() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [id]);
+
+  const loadRecentNotes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sermon_notes')
+        .select('id, title, pastor_name, preached_on, service')
+        .eq('church_id', id)
+        .eq('status', 'published')
+        .neq('visibility', 'unlisted')
+        .order('preached_on', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(5);
+
+      if (error) throw error;
+      setRecentNotes(data || []);
+    } catch (error) {
+      console.error('Error loading church sermon notes:', error);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      loadChurch();
+      loadRecentNotes();
+    }
+  }, [id, loadChurch, loadRecentNotes]);
 
   if (loading) return <LoadingState />;
 
@@ -139,7 +169,29 @@ export default function Church() {
                 <BookOpen className="h-5 w-5 text-holy-blue-500" />
                 <h2 className="text-lg font-semibold text-holy-blue-900">Recent Notes</h2>
               </div>
-              <p className="text-holy-blue-600">No sermon notes yet</p>
+              {recentNotes.length > 0 ? (
+                <ul className="space-y-3">
+                  {recentNotes.map(note => (
+                    <li key={note.id}>
+                      <Link
+                        to={`/sermon-notes/${note.id}`}
+                        className="font-medium text-holy-blue-900 hover:text-holy-blue-600"
+                      >
+                        {note.title}
+                      </Link>
+                      <p className="text-sm text-holy-blue-600">
+                        {[
+                          note.pastor_name,
+                          note.preached_on && formatPreachedOn(note.preached_on),
+                          note.service
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-holy-blue-600">No sermon notes yet</p>
+              )}
             </div>
           </div>
         </div>
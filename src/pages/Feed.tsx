@@ -1,116 +1,153 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
 import { SermonCard } from '../components/sermon/SermonCard';
 import { FeedFilters } from '../components/feed/FeedFilters';
+import { FollowSuggestions } from '../components/feed/FollowSuggestions';
+import { TagCloud } from '../components/feed/TagCloud';
 import { LoadingState } from '../components/ui/LoadingState';
-import { Scroll, AlertCircle, PenSquare } from 'lucide-react';
+import { Scroll, AlertCircle, PenSquare, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { Link } from 'react-router-dom';
-
-interface SermonNote {
-  id: string;
-  title: string;
-  content: any;
-  created_at: string;
-  visibility: 'public' | 'private' | 'church';
-  author: {
-    id: string;
-    username: string;
-    full_name: string;
-    avatar_url: string | null;
-  };
-  praise_count: number;
-  comment_count: number;
-  user_has_praised: boolean;
-  scripture_references: string[];
-}
-
-type FilterType = 'recent' | 'following' | 'praised' | 'church';
+import { Link, useNavigationType, useSearchParams } from 'react-router-dom';
+import {
+  isSameFeedQuery,
+  useFeedStore,
+  type FeedAdvancedFilters,
+  type FeedFilter,
+  type FeedQuery,
+  type PraiseWindow
+} from '../stores/feedStore';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const FEED_FILTERS: FeedFilter[] = ['recent', 'trending', 'following', 'praised', 'church'];
+const PRAISE_WINDOWS: PraiseWindow[] = ['today', 'week', 'month', 'all'];
+const DEFAULT_FILTER: FeedFilter = 'recent';
+const DEFAULT_PRAISE_WINDOW: PraiseWindow = 'week';
 
 export default function Feed() {
   const { user } = useAuth();
-  const [notes, setNotes] = useState<SermonNote[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [filter, setFilter] = useState<FilterType>('recent');
-  const [searchQuery, setSearchQuery] = useState('');
+  const navigationType = useNavigationType();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    notes,
+    hasMore,
+    loading,
+    loadingMore,
+    error,
+    loadFeed,
+    loadMore,
+    saveScrollPosition
+  } = useFeedStore();
+
+  // The feed's filters live in the URL, so a filtered feed can be bookmarked or shared
+  const filterParam = searchParams.get('filter') as FeedFilter;
+  const filter = FEED_FILTERS.includes(filterParam) ? filterParam : DEFAULT_FILTER;
+  const windowParam = searchParams.get('window') as PraiseWindow;
+  const praiseWindow = PRAISE_WINDOWS.includes(windowParam) ? windowParam : DEFAULT_PRAISE_WINDOW;
+  const search = searchParams.get('q')?.trim() || '';
+
+  const pastor = searchParams.get('pastor') || '';
+  const church = searchParams.get('church') || '';
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const book = searchParams.get('book') || '';
+  const tag = searchParams.get('tag') || '';
+  const advancedFilters = useMemo<FeedAdvancedFilters>(
+    () => ({ pastor, church, from, to, book, tag }),
+    [pastor, church, from, to, book, tag]
+  );
 
-  useEffect(() => {
-    loadSermonNotes();
-  }, [filter, searchQuery, user]);
-
-  const loadSermonNotes = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      let query = supabase
-        .from('sermon_notes')
-        .select(`
-          id,
-          title,
-          content,
-          created_at,
-          visibility,
-          scripture_references,
-          author:profiles!sermon_notes_author_id_fkey (
-            id,
-            username,
-            full_name,
-            avatar_url
-          ),
-          praise_count:praises(count),
-          comment_count:comments(count),
-          user_has_praised:praises!left(user_id)
-        `)
-        .order('created_at', { ascending: false });
-
-      // Show both public notes and the user's own notes
-      if (user) {
-        query = query.or(`visibility.eq.public,author_id.eq.${user.id}`);
-      } else {
-        query = query.eq('visibility', 'public');
-      }
+  // Coming back to the feed shows it as it was left instead of reloading it
+  const restoring = useRef(navigationType === 'POP');
+  const [searchQuery, setSearchQuery] = useState(search);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Read by the search debounce, which should only restart when the typed query changes
+  const searchRef = useRef(search);
+  searchRef.current = search;
+
+  const updateParams = useCallback((updates: Record<string, string>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, { replace: true });
+  }, [setSearchParams]);
 
-      // Apply filters
-      if (filter === 'following') {
-        query = query.in('author_id', [user?.id]); // Replace with actual following logic
-      } else if (filter === 'praised') {
-        query = query.eq('praises.user_id', user?.id);
-      } else if (filter === 'church') {
-        query = query.eq('visibility', 'church');
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchQuery.trim() !== searchRef.current) {
+        updateParams({ q: searchQuery.trim() });
       }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, updateParams]);
+
+  const userId = user?.id ?? null;
+  const query = useMemo<FeedQuery>(() => ({
+    filter,
+    praiseWindow,
+    search,
+    advanced: advancedFilters,
+    userId
+  }), [filter, praiseWindow, search, advancedFilters, userId]);
+
+  const reloadFeed = () => {
+    loadFeed(query).catch(() => toast.error('Failed to load sermon notes'));
+  };
 
-      // Apply search
-      if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,content->>'text'.ilike.%${searchQuery}%`);
-      }
+  useEffect(() => {
+    // Read once rather than subscribed to, so loading the feed doesn't run this again
+    const { query: loadedQuery, scrollY } = useFeedStore.getState();
 
-      const { data, error: fetchError } = await query;
-
-      if (fetchError) throw fetchError;
-
-      // Process the data to format counts and user_has_praised correctly
-      const processedNotes = data?.map(note => ({
-        ...note,
-        praise_count: parseInt(note.praise_count) || 0,
-        comment_count: parseInt(note.comment_count) || 0,
-        user_has_praised: note.user_has_praised?.includes(user?.id) || false
-      })) || [];
-
-      setNotes(processedNotes);
-    } catch (err) {
-      console.error('Error loading sermon notes:', err);
-      setError('Failed to load sermon notes');
-      toast.error('Failed to load sermon notes');
-    } finally {
-      setLoading(false);
+    if (restoring.current && isSameFeedQuery(loadedQuery, query)) {
+      // Wait for the cached notes to be laid out before scrolling to where the reader was
+      requestAnimationFrame(() => window.scrollTo(0, scrollY));
+      return;
     }
-  };
+    restoring.current = false;
+
+    loadFeed(query).catch(() => toast.error('Failed to load sermon notes'));
+  }, [query, loadFeed]);
+
+  useEffect(() => {
+    let lastScrollY = window.scrollY;
+    const handleScroll = () => {
+      lastScrollY = window.scrollY;
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      saveScrollPosition(lastScrollY);
+    };
+  }, [saveScrollPosition]);
+
+  // Load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (entries[0].isIntersecting) {
+          loadMore().catch(() => toast.error('Failed to load more sermon notes'));
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore, notes.length]);
 
   return (
-    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
       {/* Hero Section with CTA */}
       <div className="text-center py-12 mb-8 bg-gradient-to-br from-holy-blue-50 to-white rounded-2xl border border-holy-blue-100 shadow-sm">
         <h1 className="text-4xl font-bold text-holy-blue-900 mb-4">
@@ -141,42 +178,74 @@ export default function Feed() {
 
       <FeedFilters
         filter={filter}
-        onFilterChange={setFilter}
+        onFilterChange={(value) => updateParams({ filter: value === DEFAULT_FILTER ? '' : value })}
+        praiseWindow={praiseWindow}
+        onPraiseWindowChange={(value) => updateParams({ window: value === DEFAULT_PRAISE_WINDOW ? '' : value })}
         searchQuery={searchQuery}
         onSearchChange={setSearchQuery}
+        advancedFilters={advancedFilters}
+        onAdvancedFiltersChange={(filters) => updateParams({ ...filters })}
       />
 
-      {loading ? (
-        <LoadingState />
-      ) : error ? (
-        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
-          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
-          <p className="text-red-700">{error}</p>
-        </div>
-      ) : notes.length > 0 ? (
-        <div className="space-y-6">
-          {notes.map(note => (
-            <SermonCard
-              key={note.id}
-              note={note}
-            />
-          ))}
-        </div>
-      ) : (
-        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
-          <Scroll className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
-            No sermon notes found
-          </h3>
-          <p className="text-holy-blue-600">
-            {filter === 'following'
-              ? "You're not following anyone yet"
-              : filter === 'praised'
-              ? "You haven't praised any sermon notes"
-              : "There are no sermon notes to display"}
-          </p>
-        </div>
+      {search && (
+        <p className="-mt-2 mb-6 text-sm text-holy-blue-600">
+          <Link
+            to={`/search?q=${encodeURIComponent(search)}`}
+            className="font-medium text-holy-blue-500 hover:text-holy-blue-600"
+          >
+            See best matches for "{search}"
+          </Link>
+        </p>
       )}
+
+      <div className="lg:grid lg:grid-cols-[1fr_16rem] lg:gap-8 lg:items-start">
+        <div>
+          {loading ? (
+            <LoadingState />
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+              <p className="text-red-700">{error}</p>
+            </div>
+          ) : notes.length > 0 ? (
+            <div className="space-y-6">
+              {notes.map(note => (
+                <SermonCard
+                  key={note.id}
+                  note={note}
+                />
+              ))}
+
+              {hasMore && (
+                <div ref={sentinelRef} className="flex justify-center py-4">
+                  {loadingMore && <Loader2 className="h-6 w-6 animate-spin text-holy-blue-500" />}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+              <Scroll className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+                No sermon notes found
+              </h3>
+              <p className="text-holy-blue-600">
+                {filter === 'following'
+                  ? "No sermon notes from people you follow yet"
+                  : filter === 'praised'
+                  ? "No sermon notes have been praised in this period"
+                  : "There are no sermon notes to display"}
+              </p>
+              {filter === 'following' && !search && (
+                <FollowSuggestions onFollow={reloadFeed} />
+              )}
+            </div>
+          )}
+        </div>
+
+        <aside className="hidden lg:block lg:sticky lg:top-24">
+          <TagCloud />
+        </aside>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,353 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, Loader2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { FollowButton } from '../components/profile/FollowButton';
+import { DefaultAvatar } from '../components/profile/DefaultAvatar';
+import { LoadingState } from '../components/ui/LoadingState';
+import { cn } from '../utils/cn';
+
+const PAGE_SIZE = 20;
+
+type FollowListType = 'followers' | 'following';
+
+interface ListedProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+  bio: string | null;
+}
+
+// One follows row, with the profile on the other side of it
+interface FollowEntry {
+  id: string;
+  created_at: string;
+  profile: ListedProfile;
+}
+
+interface ProfileSummary {
+  id: string;
+  username: string;
+  full_name: string;
+  follower_count: number;
+  following_count: number;
+}
+
+interface MutualFollower {
+  mutual_follower_id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+interface FollowListProps {
+  type: FollowListType;
+}
+
+function Avatar({ profile, size }: { profile: { full_name: string; avatar_url: string | null }; size: number }) {
+  return profile.avatar_url ? (
+    <img
+      src={profile.avatar_url}
+      alt={profile.full_name}
+      className="rounded-full object-cover flex-shrink-0"
+      style={{ width: size, height: size }}
+    />
+  ) : (
+    <div className="rounded-full overflow-hidden flex-shrink-0" style={{ width: size, height: size }}>
+      <DefaultAvatar size={size} />
+    </div>
+  );
+}
+
+export default function FollowList({ type }: FollowListProps) {
+  const { id } = useParams();
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<ProfileSummary | null>(null);
+  const [entries, setEntries] = useState<FollowEntry[]>([]);
+  const [mutualFollowers, setMutualFollowers] = useState<MutualFollower[]>([]);
+  // The viewer's relationship to the listed profiles
+  const [followingIds, setFollowingIds] = useState<Set<string>>(new Set());
+  const [followerIds, setFollowerIds] = useState<Set<string>>(new Set());
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwnProfile = user?.id === id;
+
+  const loadSummary = useCallback(async () => {
+    const { data, error: fetchError } = await supabase
+      .from('profiles')
+      .select('id, username, full_name, follower_count, following_count')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Error loading profile:', fetchError);
+      return;
+    }
+
+    setSummary(data as ProfileSummary | null);
+  }, [id]);
+
+  const loadMutualFollowers = useCallback(async () => {
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_mutual_followers', {
+        p_user_id: id
+      });
+
+      if (fetchError) throw fetchError;
+      setMutualFollowers((data || []) as MutualFollower[]);
+    } catch (err) {
+      console.error('Error loading mutual followers:', err);
+    }
+  }, [id]);
+
+  // Which of the listed profiles the viewer follows, and which follow the viewer
+  const loadRelationships = useCallback(async (profileIds: string[]) => {
+    if (!user || profileIds.length === 0) return;
+
+    const [following, followers] = await Promise.all([
+      supabase
+        .from('follows')
+        .select('following_id')
+        .eq('follower_id', user.id)
+        .in('following_id', profileIds),
+      supabase
+        .from('follows')
+        .select('follower_id')
+        .eq('following_id', user.id)
+        .in('follower_id', profileIds)
+    ]);
+
+    if (following.error) throw following.error;
+    if (followers.error) throw followers.error;
+
+    setFollowingIds(prev => new Set([...prev, ...following.data.map(row => row.following_id)]));
+    setFollowerIds(prev => new Set([...prev, ...followers.data.map(row => row.follower_id)]));
+  }, [user]);
+
+  const loadEntries = useCallback(async (after: FollowEntry | null) => {
+    try {
+      if (after) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      // Followers are the follower side of rows following this profile, and vice versa
+      const profileColumns = `
+        id,
+        username,
+        full_name,
+        avatar_url,
+        bio
+      `;
+      let query = supabase
+        .from('follows')
+        .select(
+          type === 'followers'
+            ? `id, created_at, profile:profiles!follows_follower_id_fkey (${profileColumns})`
+            : `id, created_at, profile:profiles!follows_following_id_fkey (${profileColumns})`
+        )
+        .eq(type === 'followers' ? 'following_id' : 'follower_id', id)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE + 1);
+
+      if (after) {
+        query = query.or(
+          `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+        );
+      }
+
+      const { data, error: fetchError } = await query;
+
+      if (fetchError) throw fetchError;
+
+      const rows = (data || []) as unknown as FollowEntry[];
+      const page = rows.slice(0, PAGE_SIZE).filter(entry => entry.profile);
+
+      await loadRelationships(page.map(entry => entry.profile.id));
+
+      setEntries(prev => (after ? [...prev, ...page] : page));
+      setHasMore(rows.length > PAGE_SIZE);
+    } catch (err) {
+      console.error(`Error loading ${type}:`, err);
+      setError(`Failed to load ${type}`);
+      toast.error(`Failed to load ${type}`);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [id, type, loadRelationships]);
+
+  useEffect(() => {
+    setEntries([]);
+    setHasMore(false);
+    setFollowingIds(new Set());
+    setFollowerIds(new Set());
+
+    if (id) {
+      loadSummary();
+      loadEntries(null);
+    }
+  }, [id, loadSummary, loadEntries]);
+
+  useEffect(() => {
+    setMutualFollowers([]);
+
+    // Everyone on your own followers list already follows you
+    if (id && user && !isOwnProfile && type === 'followers') {
+      loadMutualFollowers();
+    }
+  }, [id, type, user, isOwnProfile, loadMutualFollowers]);
+
+  // FollowButton toggles, so flip what we know
+  const handleFollowChange = (profileId: string) => {
+    setFollowingIds(prev => {
+      const next = new Set(prev);
+      if (next.has(profileId)) {
+        next.delete(profileId);
+      } else {
+        next.add(profileId);
+      }
+      return next;
+    });
+  };
+
+  const name = summary?.full_name || 'This user';
+  const tabs: { type: FollowListType; label: string; count: number | undefined }[] = [
+    { type: 'followers', label: 'Followers', count: summary?.follower_count },
+    { type: 'following', label: 'Following', count: summary?.following_count }
+  ];
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6">
+        <Link to={`/profile/${id}`} className="btn-secondary inline-flex items-center">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Profile
+        </Link>
+      </div>
+
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-holy-blue-900">{name}</h1>
+        {summary && <p className="text-holy-blue-600 mt-1">@{summary.username}</p>}
+      </div>
+
+      <div className="flex gap-2 border-b border-holy-blue-100 mb-6">
+        {tabs.map(tab => (
+          <Link
+            key={tab.type}
+            to={`/profile/${id}/${tab.type}`}
+            className={cn(
+              "px-4 py-2 -mb-px border-b-2 text-sm font-medium transition-colors",
+              tab.type === type
+                ? "border-holy-blue-500 text-holy-blue-900"
+                : "border-transparent text-holy-blue-600 hover:text-holy-blue-900"
+            )}
+          >
+            {tab.label}
+            {tab.count !== undefined && <span className="ml-1 text-holy-blue-500">{tab.count}</span>}
+          </Link>
+        ))}
+      </div>
+
+      {mutualFollowers.length > 0 && (
+        <div className="mb-6 bg-holy-blue-50 rounded-lg p-4">
+          <h2 className="text-sm font-semibold text-holy-blue-900 mb-3">
+            {mutualFollowers.length === 1
+              ? `1 of your followers also follows ${name}`
+              : `${mutualFollowers.length} of your followers also follow ${name}`}
+          </h2>
+          <div className="flex flex-wrap gap-3">
+            {mutualFollowers.map(follower => (
+              <Link
+                key={follower.mutual_follower_id}
+                to={`/profile/${follower.mutual_follower_id}`}
+                className="flex items-center gap-2 bg-white rounded-full border border-holy-blue-100 pl-1 pr-3 py-1 hover:border-holy-blue-300 transition-colors"
+                title={`@${follower.username}`}
+              >
+                <Avatar profile={follower} size={28} />
+                <span className="text-sm text-holy-blue-900">{follower.full_name}</span>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingState />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : entries.length > 0 ? (
+        <div className="space-y-6">
+          <ul className="bg-white rounded-lg shadow-sm border border-holy-blue-100 divide-y divide-holy-blue-100">
+            {entries.map(({ id: entryId, profile }) => (
+              <li key={entryId} className="flex items-center gap-3 p-4">
+                <Link to={`/profile/${profile.id}`} className="flex items-center gap-3 min-w-0 flex-1">
+                  <Avatar profile={profile} size={48} />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium text-holy-blue-900 truncate">{profile.full_name}</p>
+                      {followerIds.has(profile.id) && !(isOwnProfile && type === 'followers') && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-holy-blue-50 text-holy-blue-600">
+                          Follows you
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-holy-blue-500 truncate">@{profile.username}</p>
+                    {profile.bio && (
+                      <p className="text-sm text-holy-blue-700 mt-1 line-clamp-2">{profile.bio}</p>
+                    )}
+                  </div>
+                </Link>
+                {user && user.id !== profile.id && (
+                  <FollowButton
+                    userId={profile.id}
+                    isFollowing={followingIds.has(profile.id)}
+                    onFollowChange={() => handleFollowChange(profile.id)}
+                    className="px-3 py-1 text-sm"
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadEntries(entries[entries.length - 1])}
+                disabled={loadingMore}
+                className="btn-secondary inline-flex items-center"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+          <Users className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+            {type === 'followers' ? 'No followers yet' : 'Not following anyone yet'}
+          </h3>
+          <p className="text-holy-blue-600">
+            {type === 'followers'
+              ? `People who follow ${isOwnProfile ? 'you' : name} will show up here.`
+              : `People ${isOwnProfile ? 'you follow' : `${name} follows`} will show up here.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Bell, CheckCheck, AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotificationStore } from '../stores/notificationStore';
+import { NotificationItem } from '../components/notifications/NotificationItem';
+import { LoadingState } from '../components/ui/LoadingState';
+import { NOTIFICATION_COLUMNS, type AppNotification } from '../utils/notifications';
+
+const PAGE_SIZE = 20;
+
+export default function Notifications() {
+  const { user } = useAuth();
+  const { unreadCount, markRead, markAllRead } = useNotificationStore();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setNotifications([]);
+    setHasMore(false);
+
+    if (user) {
+      loadNotifications(null);
+    }
+  }, [user]);
+
+  // New notifications, and batches someone just joined, arrive in the header inbox;
+  // fold them in at the top
+  const latest = useNotificationStore(state => state.notifications[0]);
+  useEffect(() => {
+    if (latest && !loading) {
+      setNotifications(prev => (
+        prev[0]?.id === latest.id && prev[0].actor_count === latest.actor_count
+          ? prev
+          : [latest, ...prev.filter(n => n.id !== latest.id)]
+      ));
+    }
+  }, [latest, loading]);
+
+  const loadNotifications = async (after: AppNotification | null) => {
+    try {
+      if (after) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      let query = supabase
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('delivery', 'in_app')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE + 1);
+
+      if (after) {
+        query = query.or(
+          `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+        );
+      }
+
+      const { data, error: fetchError } = await query;
+
+      if (fetchError) throw fetchError;
+
+      const rows = (data || []) as unknown as AppNotification[];
+      const page = rows.slice(0, PAGE_SIZE);
+
+      setNotifications(prev => (after ? [...prev, ...page] : page));
+      setHasMore(rows.length > PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+      setError('Failed to load notifications');
+      toast.error('Failed to load notifications');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleOpen = (notification: AppNotification) => {
+    if (notification.read) return;
+
+    setNotifications(prev => prev.map(n => (n.id === notification.id ? { ...n, read: true } : n)));
+    markRead([notification.id]);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      await markAllRead();
+    } catch {
+      toast.error('Failed to mark notifications as read');
+      loadNotifications(null);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-holy-blue-900 flex items-center gap-2">
+            <Bell className="h-8 w-8 text-holy-blue-500" />
+            Notifications
+          </h1>
+          <p className="text-holy-blue-600 mt-1">
+            {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+          </p>
+        </div>
+        {unreadCount > 0 && (
+          <button onClick={handleMarkAllRead} className="btn-secondary inline-flex items-center">
+            <CheckCheck className="h-4 w-4 mr-2" />
+            Mark all read
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <LoadingState />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : notifications.length > 0 ? (
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-sm border border-holy-blue-100 divide-y divide-holy-blue-100 overflow-hidden">
+            {notifications.map(notification => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onOpen={handleOpen}
+              />
+            ))}
+          </div>
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadNotifications(notifications[notifications.length - 1])}
+                disabled={loadingMore}
+                className="btn-secondary inline-flex items-center"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+          <Bell className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+            No notifications yet
+          </h3>
+          <p className="text-holy-blue-600">
+            Praise, comments, replies, mentions and new followers will show up here.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabase';
 import { LoadingState } from '../components/ui/LoadingState';
@@ -7,6 +7,7 @@ import { format } from 'date-fns';
 import { Edit2, Calendar, ArrowLeft, Users } from 'lucide-react';
 import { DefaultAvatar } from '../components/profile/DefaultAvatar';
 import { AccountSettings } from '../components/profile/AccountSettings';
+import { FollowStats } from '../components/profile/FollowStats';
 import { usePraiseStore } from '../stores/praiseStore';
 import { toast } from 'sonner';
 
@@ -18,6 +19,8 @@ interface Profile {
   header_url: string | null;
   bio: string;
   created_at: string;
+  follower_count: number;
+  following_count: number;
   is_church_admin: boolean;
   sermon_notes: Array<{
     id: string;
@@ -43,7 +46,9 @@ export default function Profile() {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [showSettings, setShowSettings] = useState(false);
+  // Links to ?view=settings, like the one in the digest email, open straight to settings
+  const [searchParams] = useSearchParams();
+  const [showSettings, setShowSettings] = useState(searchParams.get('view') === 'settings');
   const isOwnProfile = user?.id === id;
   const { initializePraiseState } = usePraiseStore();
 
@@ -86,6 +91,8 @@ export default function Profile() {
           header_url,
           bio,
           created_at,
+          follower_count,
+          following_count,
           is_church_admin,
           sermon_notes (
             id,
@@ -99,6 +106,7 @@ export default function Profile() {
           )
         `)
         .eq('id', id)
+        .eq('sermon_notes.status', 'published')
         .single();
 
       if (profileError) throw profileError;
@@ -244,6 +252,14 @@ export default function Profile() {
               <p className="mt-4 text-holy-blue-800">{profile.bio}</p>
             )}
 
+            <div className="mt-4">
+              <FollowStats
+                userId={profile.id}
+                followerCount={profile.follower_count || 0}
+                followingCount={profile.following_count || 0}
+              />
+            </div>
+
             <div className="mt-4 flex items-center justify-between">
               {/* Member Stats for Church Profiles */}
               {profile.is_church_admin && profile.member_stats && (
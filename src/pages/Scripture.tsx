@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { BookOpen, ChevronLeft, ChevronRight, AlertCircle, Scroll, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { JSONContent } from '@tiptap/react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { SermonCard } from '../components/sermon/SermonCard';
+import { LoadingState } from '../components/ui/LoadingState';
+import {
+  findBibleBook,
+  formatScriptureReference,
+  getVerseRange,
+  parsePassageKey,
+  type ScripturePassage
+} from '../utils/scripture';
+import type { SermonNoteVisibility } from '../utils/sermonContent';
+
+interface SermonNote {
+  id: string;
+  title: string;
+  content: JSONContent;
+  created_at: string;
+  visibility: SermonNoteVisibility;
+  author: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+  praise_count: number;
+  comment_count: number;
+  user_has_praised: boolean;
+  scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
+}
+
+const PAGE_SIZE = 20;
+
+type SermonNoteRow = Omit<SermonNote, 'praise_count' | 'comment_count' | 'user_has_praised'> & {
+  praise_count: { count: number }[];
+  comment_count: { count: number }[];
+  user_has_praised: { user_id: string }[] | null;
+  // Only the passages that overlap the chapter or verses being viewed
+  passages: { scripture_key: string }[];
+};
+
+// A loaded note with the passage it's listed under
+interface NotePassage {
+  passage: ScripturePassage;
+  note: SermonNote;
+}
+
+interface PassageGroup {
+  label: string;
+  startVerse: number;
+  endVerse: number;
+  notes: SermonNote[];
+}
+
+const parseVerseFilter = (value: string | null): { start: number; end: number } | null => {
+  const match = value?.match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+
+  const start = Number(match[1]);
+  const end = Number(match[2] || match[1]);
+  return start >= 1 && end >= start ? { start, end } : null;
+};
+
+export default function Scripture() {
+  const { book: bookParam, chapter: chapterParam } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [notePassages, setNotePassages] = useState<NotePassage[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [verseInput, setVerseInput] = useState(searchParams.get('verses') || '');
+
+  const book = bookParam ? findBibleBook(bookParam) : null;
+  const chapter = Number(chapterParam);
+  const isValidChapter = Boolean(book) && Number.isInteger(chapter) && chapter >= 1 && chapter <= (book?.chapters ?? 0);
+  const verseFilter = parseVerseFilter(searchParams.get('verses'));
+
+  const heading = useMemo(() => {
+    if (!book) return '';
+    return formatScriptureReference(book, [{
+      book: book.id,
+      chapter,
+      startVerse: verseFilter?.start ?? null,
+      endChapter: chapter,
+      endVerse: verseFilter?.end ?? null
+    }]);
+  }, [book, chapter, verseFilter?.start, verseFilter?.end]);
+
+  useEffect(() => {
+    setVerseInput(searchParams.get('verses') || '');
+  }, [searchParams]);
+
+  // Passages that start in an earlier chapter cover this chapter from verse 0
+  const getStartVerse = useCallback((passage: ScripturePassage) =>
+    passage.chapter < chapter || passage.startVerse === null ? 0 : passage.startVerse, [chapter]);
+
+  const verseStart = verseFilter?.start ?? null;
+  const verseEnd = verseFilter?.end ?? null;
+  const userId = user?.id;
+
+  // Notes are paged newest first, then grouped by passage as they arrive
+  const loadNotes = useCallback(async (after: SermonNote | null) => {
+    if (!book) return;
+
+    try {
+      if (after) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      let query = supabase
+        .from('sermon_notes')
+        .select(`
+          id,
+          title,
+          content,
+          created_at,
+          visibility,
+          scripture_references,
+          pastor_name,
+          church_name,
+          preached_on,
+          service,
+          tags,
+          author:profiles!sermon_notes_author_id_fkey (
+            id,
+            username,
+            full_name,
+            avatar_url
+          ),
+          praise_count:praises(count),
+          comment_count:comments(count),
+          user_has_praised:praises!left(user_id),
+          passages:sermon_note_passages!inner(scripture_key)
+        `, { count: after ? undefined : 'exact' })
+        .overlaps('passages.verses', getVerseRange(book.id, chapter, verseStart, verseEnd))
+        .eq('status', 'published')
+        .neq('visibility', 'unlisted')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE + 1);
+
+      if (after) {
+        query = query.or(
+          `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+        );
+      }
+
+      const { data, count, error: fetchError } = await query;
+
+      if (fetchError) throw fetchError;
+
+      const rows = (data || []) as unknown as SermonNoteRow[];
+      const page: NotePassage[] = [];
+
+      // Each note is listed once, under the first passage it has in this chapter
+      rows.slice(0, PAGE_SIZE).forEach(({ passages, ...row }) => {
+        const passage = passages
+          .map(({ scripture_key }) => parsePassageKey(scripture_key))
+          .filter((parsed): parsed is ScripturePassage => Boolean(parsed))
+          .sort((a, b) => getStartVerse(a) - getStartVerse(b))[0];
+        if (!passage) return;
+
+        page.push({
+          passage,
+          note: {
+            ...row,
+            praise_count: row.praise_count?.[0]?.count || 0,
+            comment_count: row.comment_count?.[0]?.count || 0,
+            user_has_praised: row.user_has_praised?.some(praise => praise.user_id === userId) || false
+          }
+        });
+      });
+
+      setNotePassages(prev => (after ? [...prev, ...page] : page));
+      setHasMore(rows.length > PAGE_SIZE);
+      if (!after) {
+        setTotal(count ?? page.length);
+      }
+    } catch (err) {
+      console.error('Error loading scripture notes:', err);
+      setError('Failed to load sermon notes');
+      toast.error('Failed to load sermon notes');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [book, chapter, verseStart, verseEnd, userId, getStartVerse]);
+
+  useEffect(() => {
+    setNotePassages([]);
+    setHasMore(false);
+
+    if (isValidChapter) {
+      loadNotes(null);
+    } else {
+      setLoading(false);
+    }
+  }, [isValidChapter, loadNotes]);
+
+  const groups = useMemo(() => {
+    if (!book) return [];
+
+    const groupsByLabel = new Map<string, PassageGroup>();
+
+    notePassages.forEach(({ passage, note }) => {
+      const startVerse = getStartVerse(passage);
+      const endVerse = passage.endChapter > chapter || passage.endVerse === null ? 999 : passage.endVerse;
+      const label = startVerse === 0 && endVerse === 999
+        ? `All of ${book.name === 'Psalms' ? 'Psalm' : book.name} ${chapter}`
+        : formatScriptureReference(book, [passage]);
+
+      const group = groupsByLabel.get(label) || { label, startVerse, endVerse, notes: [] };
+      group.notes.push(note);
+      groupsByLabel.set(label, group);
+    });
+
+    return Array.from(groupsByLabel.values())
+      .sort((a, b) => a.startVerse - b.startVerse || a.endVerse - b.endVerse);
+  }, [book, chapter, notePassages, getStartVerse]);
+
+  const handleVerseFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = verseInput.replace(/\s/g, '');
+
+    if (!value) {
+      setSearchParams({});
+    } else if (parseVerseFilter(value)) {
+      setSearchParams({ verses: value });
+    } else {
+      toast.error('Enter a verse or range, e.g. 16 or 16-18');
+    }
+  };
+
+  if (!book || !isValidChapter) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <h2 className="text-2xl font-bold text-holy-blue-900 mb-4">
+            {book ? `${book.name} has ${book.chapters} chapters` : 'Book not found'}
+          </h2>
+          <Link to="/feed" className="btn-primary inline-flex items-center">
+            Back to Feed
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-holy-blue-900 flex items-center gap-2">
+            <BookOpen className="h-8 w-8 text-holy-blue-500" />
+            {heading}
+          </h1>
+          <p className="text-holy-blue-600 mt-1">
+            {loading
+              ? 'Finding sermon notes...'
+              : `${total} sermon ${total === 1 ? 'note' : 'notes'} on this passage`}
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          {chapter > 1 && (
+            <Link
+              to={`/scripture/${book.id}/${chapter - 1}`}
+              className="btn-secondary"
+              aria-label="Previous chapter"
+            >
+              <ChevronLeft className="h-5 w-5" />
+            </Link>
+          )}
+          {chapter < book.chapters && (
+            <Link
+              to={`/scripture/${book.id}/${chapter + 1}`}
+              className="btn-secondary"
+              aria-label="Next chapter"
+            >
+              <ChevronRight className="h-5 w-5" />
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleVerseFilter} className="flex items-center gap-2 mb-8">
+        <label htmlFor="verses" className="text-sm font-medium text-holy-blue-900">
+          Verses
+        </label>
+        <input
+          id="verses"
+          type="text"
+          value={verseInput}
+          onChange={(e) => setVerseInput(e.target.value)}
+          placeholder="e.g. 16-18"
+          className="w-32 rounded-md border border-holy-blue-200 px-3 py-2"
+        />
+        <button type="submit" className="btn-secondary">
+          Filter
+        </button>
+        {verseFilter && (
+          <button
+            type="button"
+            onClick={() => setSearchParams({})}
+            className="text-sm text-holy-blue-500 hover:text-holy-blue-600"
+          >
+            Whole chapter
+          </button>
+        )}
+      </form>
+
+      {loading ? (
+        <LoadingState />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : groups.length > 0 ? (
+        <div className="space-y-10">
+          {groups.map(group => (
+            <section key={group.label}>
+              <h2 className="text-xl font-semibold text-holy-blue-900 mb-4">{group.label}</h2>
+              <div className="space-y-6">
+                {group.notes.map(note => (
+                  <SermonCard key={note.id} note={note} />
+                ))}
+              </div>
+            </section>
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center">
+              <button
+                onClick={() => loadNotes(notePassages[notePassages.length - 1].note)}
+                disabled={loadingMore}
+                className="btn-secondary inline-flex items-center"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+          <Scroll className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+            No sermon notes yet
+          </h3>
+          <p className="text-holy-blue-600">
+            Nobody has shared notes on {heading} yet.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Search as SearchIcon, AlertCircle, Scroll, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { supabase } from '../lib/supabase';
+import { LoadingState } from '../components/ui/LoadingState';
+import { ScriptureReferenceChip } from '../components/scripture/ScriptureReferenceChip';
+import { formatPreachedOn } from '../utils/sermonContent';
+
+const PAGE_SIZE = 20;
+
+// search_sermon_notes wraps matched terms in these control characters
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+interface SearchMatch {
+  sermon_note_id: string;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+interface SearchResult {
+  id: string;
+  title_highlight: string;
+  snippet: string;
+  created_at: string;
+  scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  author: {
+    id: string;
+    username: string;
+    full_name: string;
+  };
+}
+
+type SearchResultNote = Omit<SearchResult, 'title_highlight' | 'snippet'>;
+
+const renderHighlighted = (text: string) =>
+  text.split(HIGHLIGHT_START).map((part, index) => {
+    if (index === 0) return part;
+
+    const [highlighted, rest] = part.split(HIGHLIGHT_END);
+    return (
+      <React.Fragment key={index}>
+        <mark className="bg-divine-yellow-100 text-holy-blue-900 rounded px-0.5">{highlighted}</mark>
+        {rest}
+      </React.Fragment>
+    );
+  });
+
+export default function Search() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get('q')?.trim() || '';
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [nextOffset, setNextOffset] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadResults = useCallback(async (offset: number) => {
+    try {
+      if (offset === 0) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
+      setError(null);
+
+      const { data: matches, error: searchError } = await supabase.rpc('search_sermon_notes', {
+        p_query: query,
+        p_limit: PAGE_SIZE + 1,
+        p_offset: offset
+      });
+
+      if (searchError) throw searchError;
+
+      const pageMatches = ((matches || []) as SearchMatch[]).slice(0, PAGE_SIZE);
+      let pageResults: SearchResult[] = [];
+
+      if (pageMatches.length > 0) {
+        const { data: notes, error: notesError } = await supabase
+          .from('sermon_notes')
+          .select(`
+            id,
+            created_at,
+            scripture_references,
+            pastor_name,
+            church_name,
+            preached_on,
+            author:profiles!sermon_notes_author_id_fkey (
+              id,
+              username,
+              full_name
+            )
+          `)
+          .in('id', pageMatches.map(match => match.sermon_note_id));
+
+        if (notesError) throw notesError;
+
+        const notesById = new Map(
+          ((notes || []) as unknown as SearchResultNote[]).map(note => [note.id, note])
+        );
+
+        pageResults = pageMatches.flatMap(match => {
+          const note = notesById.get(match.sermon_note_id);
+          return note
+            ? [{ ...note, title_highlight: match.title_highlight, snippet: match.snippet }]
+            : [];
+        });
+      }
+
+      setResults(prev => (offset === 0 ? pageResults : [...prev, ...pageResults]));
+      setHasMore((matches || []).length > PAGE_SIZE);
+      setNextOffset(offset + pageMatches.length);
+    } catch (err) {
+      console.error('Error searching sermon notes:', err);
+      setError('Failed to search sermon notes');
+      toast.error('Failed to search sermon notes');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    setInput(query);
+    setResults([]);
+    setHasMore(false);
+
+    if (query) {
+      loadResults(0);
+    }
+  }, [query, loadResults]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = input.trim();
+    setSearchParams(value ? { q: value } : {});
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 className="text-3xl font-bold text-holy-blue-900 mb-6">Search Sermon Notes</h1>
+
+      <form onSubmit={handleSubmit} className="relative mb-2">
+        <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-holy-blue-400 h-5 w-5" />
+        <input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Search titles, pastors, churches, scripture and note text..."
+          className="w-full pl-10 pr-4 py-2 rounded-full border border-holy-blue-200 focus:ring-2 focus:ring-holy-blue-500 focus:border-transparent"
+          autoFocus
+        />
+      </form>
+      <p className="text-xs text-holy-blue-500 mb-8 pl-4">
+        Use quotes for a phrase, "or" for either word, and a leading minus to leave a word out.
+      </p>
+
+      {!query ? null : loading ? (
+        <LoadingState />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : results.length > 0 ? (
+        <div className="space-y-4">
+          {results.map(result => {
+            const sermonInfo = [
+              result.pastor_name,
+              result.church_name,
+              result.preached_on && formatPreachedOn(result.preached_on)
+            ].filter(Boolean).join(' · ');
+
+            return (
+              <div key={result.id} className="card p-6">
+                <Link to={`/sermon-notes/${result.id}`} className="block group">
+                  <h2 className="text-lg font-semibold text-holy-blue-900 group-hover:text-holy-blue-600">
+                    {renderHighlighted(result.title_highlight)}
+                  </h2>
+                  <p className="text-sm text-holy-blue-500 mt-1">
+                    {result.author.full_name} · {formatDistanceToNow(new Date(result.created_at), { addSuffix: true })}
+                    {sermonInfo && ` · ${sermonInfo}`}
+                  </p>
+                  {result.snippet && (
+                    <p className="text-holy-blue-700 mt-3 leading-relaxed">
+                      {renderHighlighted(result.snippet)}
+                    </p>
+                  )}
+                </Link>
+
+                {result.scripture_references?.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {result.scripture_references.map((reference, index) => (
+                      <ScriptureReferenceChip key={index} reference={reference} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {hasMore && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={() => loadResults(nextOffset)}
+                disabled={loadingMore}
+                className="btn-secondary inline-flex items-center"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Show more results
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+          <Scroll className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+            No sermon notes found
+          </h3>
+          <p className="text-holy-blue-600">
+            Nothing matches "{query}". Try fewer or different words.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
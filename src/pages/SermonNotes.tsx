@@ -1,17 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
-import { Plus, Search, Filter, Scroll } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Plus, Search, Filter, Scroll, FileText, Trash2, PenSquare } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
 import { supabase } from '../lib/supabase';
 import { SermonCard } from '../components/sermon/SermonCard';
 import { LoadingState } from '../components/ui/LoadingState';
+import { NEW_DRAFT_KEY, getLocalDraftKey, useDraftStore } from '../stores/draftStore';
+import { cn } from '../utils/cn';
+import { getBlockPlainText } from '../utils/revisionDiff';
+import type { SermonNoteVisibility } from '../utils/sermonContent';
 
 interface SermonNote {
   id: string;
   title: string;
   content: any;
   created_at: string;
-  visibility: 'public' | 'private' | 'church';
+  visibility: SermonNoteVisibility;
+  share_token: string | null;
   author: {
     id: string;
     username: string;
@@ -22,22 +29,72 @@ interface SermonNote {
   comment_count: number;
   user_has_praised: boolean;
   scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
 }
 
+interface DraftNote {
+  id: string;
+  title: string;
+  updated_at: string;
+  scripture_references: string[];
+}
+
+type NotesTab = 'published' | 'drafts';
+
 export default function SermonNotes() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [notes, setNotes] = useState<SermonNote[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [activeTab, setActiveTab] = useState<NotesTab>('published');
+  const [drafts, setDrafts] = useState<DraftNote[]>([]);
+  const [deletingDraft, setDeletingDraft] = useState<string | null>(null);
+  const { localDrafts, deleteRemoteDraft, clearLocalDraft } = useDraftStore();
+  const userId = user?.id ?? '';
 
-  useEffect(() => {
-    if (user) {
-      loadUserNotes();
+  const loadDrafts = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('sermon_notes')
+        .select('id, title, updated_at, scripture_references')
+        .eq('author_id', user.id)
+        .eq('status', 'draft')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+
+      setDrafts(data || []);
+    } catch (error) {
+      console.error('Error loading drafts:', error);
     }
   }, [user]);
 
-  const loadUserNotes = async () => {
+  const handleDeleteDraft = async (draftId: string) => {
+    try {
+      setDeletingDraft(draftId);
+      if (draftId === NEW_DRAFT_KEY) {
+        clearLocalDraft(getLocalDraftKey(userId, NEW_DRAFT_KEY));
+      } else {
+        await deleteRemoteDraft(draftId);
+        setDrafts(prev => prev.filter(draft => draft.id !== draftId));
+      }
+      toast.success('Draft deleted');
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast.error('Failed to delete draft');
+    } finally {
+      setDeletingDraft(null);
+    }
+  };
+
+  const loadUserNotes = useCallback(async () => {
     if (!user) return;
 
     try {
@@ -50,7 +107,13 @@ export default function SermonNotes() {
           content,
           created_at,
           visibility,
+          share_token,
           scripture_references,
+          pastor_name,
+          church_name,
+          preached_on,
+          service,
+          tags,
           author:profiles!sermon_notes_author_id_fkey (
             id,
             username,
@@ -62,6 +125,7 @@ export default function SermonNotes() {
           user_has_praised:praises!left(user_id)
         `)
         .eq('author_id', user.id)
+        .eq('status', 'published')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -80,15 +144,55 @@ export default function SermonNotes() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      loadUserNotes();
+      loadDrafts();
+    }
+  }, [user, loadUserNotes, loadDrafts]);
 
   const filteredNotes = notes.filter(note =>
     searchQuery
-      ? note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        JSON.stringify(note.content).toLowerCase().includes(searchQuery.toLowerCase())
+      ? [
+          note.title,
+          note.pastor_name,
+          note.church_name,
+          ...(note.scripture_references || []),
+          ...(note.content?.content || []).map(getBlockPlainText)
+        ].some(text => text?.toLowerCase().includes(searchQuery.toLowerCase()))
+      : true
+  );
+
+  // A draft that never reached the server only exists on this device
+  const unsyncedDraft = localDrafts[getLocalDraftKey(userId, NEW_DRAFT_KEY)];
+  const draftItems = [
+    ...(unsyncedDraft
+      ? [{
+          id: NEW_DRAFT_KEY,
+          title: unsyncedDraft.fields.title,
+          updated_at: new Date(unsyncedDraft.updatedAt).toISOString(),
+          scripture_references: unsyncedDraft.fields.bibleVerses.filter(verse => verse.trim())
+        }]
+      : []),
+    ...drafts
+  ].filter(draft =>
+    searchQuery
+      ? draft.title.toLowerCase().includes(searchQuery.toLowerCase())
       : true
   );
 
+  const hasLocalChanges = (draft: DraftNote) => {
+    const localDraft = localDrafts[getLocalDraftKey(userId, draft.id)];
+    return Boolean(localDraft && localDraft.updatedAt > new Date(draft.updated_at).getTime());
+  };
+
+  const tabs: Array<{ id: NotesTab; label: string; count: number }> = [
+    { id: 'published', label: 'Published', count: notes.length },
+    { id: 'drafts', label: 'Drafts', count: drafts.length + (unsyncedDraft ? 1 : 0) }
+  ];
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
       <div className="flex flex-col md:flex-row md:items-center justify-between mb-8 space-y-4 md:space-y-0">
@@ -127,8 +231,89 @@ export default function SermonNotes() {
             </button>
           </div>
 
+          <div className="flex gap-2 mb-6 border-b border-holy-blue-100" role="tablist">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={cn(
+                  "px-4 py-2 text-sm font-medium transition-colors -mb-px",
+                  activeTab === tab.id
+                    ? "text-holy-blue-600 border-b-2 border-holy-blue-500"
+                    : "text-holy-blue-600/70 hover:text-holy-blue-600"
+                )}
+                role="tab"
+                aria-selected={activeTab === tab.id}
+              >
+                {tab.label}
+                <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-holy-blue-50">
+                  {tab.count}
+                </span>
+              </button>
+            ))}
+          </div>
+
           {loading ? (
             <LoadingState />
+          ) : activeTab === 'drafts' ? (
+            draftItems.length > 0 ? (
+              <div className="space-y-4">
+                {draftItems.map(draft => (
+                  <div
+                    key={draft.id}
+                    className="bg-white rounded-lg shadow-sm border border-holy-blue-100 p-6 flex items-start gap-4"
+                  >
+                    <FileText className="h-6 w-6 text-holy-blue-400 flex-shrink-0 mt-1" />
+                    <div className="flex-1 min-w-0">
+                      <Link
+                        to={draft.id === NEW_DRAFT_KEY ? '/sermon-notes/new' : `/sermon-notes/${draft.id}/edit`}
+                        className="text-lg font-semibold text-holy-blue-900 hover:text-holy-blue-600 transition-colors"
+                      >
+                        {draft.title.trim() || 'Untitled draft'}
+                      </Link>
+                      <p className="text-sm text-holy-blue-500 mt-1">
+                        Last saved {formatDistanceToNow(new Date(draft.updated_at), { addSuffix: true })}
+                        {draft.scripture_references.length > 0 && ` · ${draft.scripture_references.join(', ')}`}
+                      </p>
+                      {(draft.id === NEW_DRAFT_KEY || hasLocalChanges(draft)) && (
+                        <p className="text-xs text-divine-yellow-700 mt-2">
+                          Has unsaved changes on this device
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => navigate(draft.id === NEW_DRAFT_KEY ? '/sermon-notes/new' : `/sermon-notes/${draft.id}/edit`)}
+                        className="btn-secondary"
+                      >
+                        <PenSquare className="h-4 w-4 mr-2" />
+                        Continue
+                      </button>
+                      <button
+                        onClick={() => handleDeleteDraft(draft.id)}
+                        disabled={deletingDraft === draft.id}
+                        className={cn(
+                          "p-2 text-red-500 hover:text-red-600 transition-colors",
+                          deletingDraft === draft.id && "opacity-50 cursor-not-allowed"
+                        )}
+                        title="Delete draft"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                <FileText className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+                <p className="text-holy-blue-600">
+                  {searchQuery
+                    ? "No drafts match your search"
+                    : "You don't have any drafts. Notes you start are saved here automatically."}
+                </p>
+              </div>
+            )
           ) : filteredNotes.length > 0 ? (
             <div className="space-y-6">
               {filteredNotes.map(note => (
@@ -1,10 +1,32 @@
-import React, { useState, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useEditor, EditorContent } from '@tiptap/react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { useEditor, EditorContent, type JSONContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import { toast } from 'sonner';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { format } from 'date-fns';
+import {
+  AUTOSAVE_INTERVAL,
+  NEW_DRAFT_KEY,
+  getLocalDraftKey,
+  useDraftStore,
+  type SermonDraft
+} from '../../stores/draftStore';
+import {
+  emptySermonNoteFields,
+  formatSermonContent,
+  getBodyScriptureReferences,
+  getSermonNoteColumns,
+  getSermonNoteFields,
+  type SermonNoteFields,
+  type SermonNoteVisibility
+} from '../../utils/sermonContent';
+import { getScriptureColumns, parseScriptureReference } from '../../utils/scripture';
+import { LoadingState } from '../../components/ui/LoadingState';
+import { ScriptureRef } from '../../components/sermon/ScriptureRef';
+import { SermonMention } from '../../components/sermon/MentionSuggestion';
+import { TagInput } from '../../components/sermon/TagInput';
 import { 
   Bold, 
   Italic, 
@@ -14,40 +36,306 @@ import {
   Eye,
   Send,
   Plus,
-  AlertTriangle
+  AlertTriangle,
+  Check,
+  Save,
+  History,
+  Loader2,
+  Globe,
+  Church,
+  Lock,
+  Link2
 } from 'lucide-react';
 
-interface SermonNoteForm {
-  title: string;
-  pastorName: string;
-  churchName: string;
-  bibleVerses: string[];
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+type NoteStatus = 'draft' | 'published';
+
+interface ChurchOption {
+  id: string;
+  name: string;
 }
 
+const SERVICE_OPTIONS = [
+  'Sunday Morning',
+  'Sunday Evening',
+  'Wednesday Night',
+  'Youth Service',
+  'Bible Study',
+  'Conference'
+];
+
+const VISIBILITY_OPTIONS: {
+  value: SermonNoteVisibility;
+  label: string;
+  description: string;
+  icon: typeof Globe;
+}[] = [
+  { value: 'public', label: 'Public', description: 'Anyone can read them', icon: Globe },
+  { value: 'church', label: 'Church only', description: 'Only active members of your church', icon: Church },
+  { value: 'unlisted', label: 'Unlisted', description: 'Anyone with the secret link, kept out of feeds and search', icon: Link2 },
+  { value: 'private', label: 'Private', description: 'Only you', icon: Lock }
+];
+
+const getSnapshot = (fields: SermonNoteFields, body: JSONContent) =>
+  JSON.stringify({ fields, body });
+
+// Live feedback for a verse input: an error, or the canonical form it will be saved as
+const getVerseFeedback = (verse: string): { error: string | null; display: string | null } => {
+  if (!verse.trim()) return { error: null, display: null };
+
+  const result = parseScriptureReference(verse);
+  return result.ok
+    ? { error: null, display: result.reference.display }
+    : { error: result.error, display: null };
+};
+
+const hasDraftContent = (fields: SermonNoteFields, body: JSONContent) =>
+  Boolean(
+    fields.title.trim() ||
+    fields.pastorName.trim() ||
+    fields.churchName.trim() ||
+    fields.service.trim() ||
+    fields.tags.length > 0 ||
+    fields.bibleVerses.some(verse => verse.trim()) ||
+    body.content?.some(block => block.content?.length)
+  );
+
 export default function NewSermonNote() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [formData, setFormData] = useState<SermonNoteForm>({
-    title: '',
-    pastorName: '',
-    churchName: '',
-    bibleVerses: ['']
-  });
+  const { id: routeNoteId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Only the note named when the page opened is loaded; later URL updates come from autosave
+  const [initialNoteId] = useState(routeNoteId ?? searchParams.get('draft'));
+  const [formData, setFormData] = useState<SermonNoteFields>(emptySermonNoteFields);
+  const [body, setBody] = useState<JSONContent>({ type: 'doc', content: [] });
   const [newVerse, setNewVerse] = useState('');
   const [isPreview, setIsPreview] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showPublishConfirm, setShowPublishConfirm] = useState(false);
+  const [draftId, setDraftId] = useState<string | null>(initialNoteId);
+  const [noteStatus, setNoteStatus] = useState<NoteStatus>('draft');
+  const [isLoadingDraft, setIsLoadingDraft] = useState(Boolean(initialNoteId));
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const [recoverableDraft, setRecoverableDraft] = useState<SermonDraft | null>(null);
+  const [churches, setChurches] = useState<ChurchOption[]>([]);
+  const lastSavedSnapshot = useRef(getSnapshot(emptySermonNoteFields, { type: 'doc', content: [] }));
+  const isSavingDraft = useRef(false);
+  const { saveLocalDraft, clearLocalDraft, saveRemoteDraft } = useDraftStore();
+
+  const userId = user?.id ?? '';
+  const draftKey = getLocalDraftKey(userId, draftId ?? NEW_DRAFT_KEY);
+  // Published notes are only written when the author saves; drafts autosave to the server
+  const isEditingPublished = noteStatus === 'published';
 
   const editor = useEditor({
-    extensions: [StarterKit],
+    extensions: [StarterKit, ScriptureRef, SermonMention],
     content: '',
     editorProps: {
       attributes: {
         class: 'prose max-w-none focus:outline-none min-h-[300px] p-4'
       }
+    },
+    onUpdate: ({ editor }) => {
+      setBody(editor.getJSON());
     }
   });
 
+  const applyDraft = useCallback((fields: SermonNoteFields, draftBody: JSONContent) => {
+    setFormData(fields);
+    setBody(draftBody);
+    editor?.commands.setContent(draftBody);
+  }, [editor]);
+
+  useEffect(() => {
+    const loadChurches = async () => {
+      const { data, error } = await supabase
+        .from('churches')
+        .select('id, name')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading churches:', error);
+        return;
+      }
+
+      setChurches(data || []);
+    };
+
+    loadChurches();
+  }, []);
+
+  // Load the server copy of the note, then offer any newer local copy for recovery
+  useEffect(() => {
+    if (!editor) return;
+
+    const loadDraft = async () => {
+      if (!initialNoteId) {
+        const localDraft = useDraftStore.getState().localDrafts[getLocalDraftKey(userId, NEW_DRAFT_KEY)];
+        if (localDraft && hasDraftContent(localDraft.fields, localDraft.body)) {
+          setRecoverableDraft(localDraft);
+        }
+        return;
+      }
+
+      try {
+        setIsLoadingDraft(true);
+        const { data, error } = await supabase
+          .from('sermon_notes')
+          .select('id, author_id, content, updated_at, status, pastor_name, church_id, church_name, preached_on, service, tags, visibility')
+          .eq('id', initialNoteId)
+          .single();
+
+        if (error) throw error;
+
+        if (data.author_id !== userId) {
+          toast.error('You can only edit your own sermon notes');
+          navigate(`/sermon-notes/${initialNoteId}`, { replace: true });
+          return;
+        }
+
+        setNoteStatus(data.status);
+
+        const { fields, body: draftBody } = getSermonNoteFields(data.content, data);
+        applyDraft(fields, draftBody);
+        lastSavedSnapshot.current = getSnapshot(fields, draftBody);
+        setLastSavedAt(new Date(data.updated_at));
+        setSaveStatus('saved');
+
+        const localDraft = useDraftStore.getState().localDrafts[getLocalDraftKey(userId, initialNoteId)];
+        if (
+          localDraft &&
+          localDraft.updatedAt > new Date(data.updated_at).getTime() &&
+          getSnapshot(localDraft.fields, localDraft.body) !== lastSavedSnapshot.current
+        ) {
+          setRecoverableDraft(localDraft);
+        }
+      } catch (error) {
+        console.error('Error loading sermon note:', error);
+        toast.error('Failed to load sermon note');
+        navigate('/sermon-notes', { replace: true });
+      } finally {
+        setIsLoadingDraft(false);
+      }
+    };
+
+    loadDraft();
+  }, [initialNoteId, userId, editor, applyDraft, navigate]);
+
+  const snapshot = getSnapshot(formData, body);
+  const isDirty = snapshot !== lastSavedSnapshot.current;
+
+  // Keep a local copy of every change so a crashed tab can be recovered
+  useEffect(() => {
+    if (isLoadingDraft || recoverableDraft || !isDirty) return;
+    if (!hasDraftContent(formData, body)) return;
+
+    saveLocalDraft(draftKey, {
+      noteId: draftId,
+      fields: formData,
+      body,
+      updatedAt: Date.now()
+    });
+  }, [snapshot, isDirty, isLoadingDraft, recoverableDraft, draftKey, draftId, formData, body, saveLocalDraft]);
+
+  const saveDraft = useCallback(async (): Promise<string | null> => {
+    if (isSavingDraft.current) return draftId;
+
+    const currentSnapshot = getSnapshot(formData, body);
+    try {
+      isSavingDraft.current = true;
+      setSaveStatus('saving');
+
+      const savedId = await saveRemoteDraft({
+        noteId: draftId,
+        fields: formData,
+        body,
+        updatedAt: Date.now()
+      });
+
+      lastSavedSnapshot.current = currentSnapshot;
+      setLastSavedAt(new Date());
+      setSaveStatus('saved');
+
+      if (!draftId) {
+        // Move the local copy under the new note id so a reload resumes this draft
+        const newDraftKey = getLocalDraftKey(userId, NEW_DRAFT_KEY);
+        const localDraft = useDraftStore.getState().localDrafts[newDraftKey];
+        clearLocalDraft(newDraftKey);
+        if (localDraft) {
+          saveLocalDraft(getLocalDraftKey(userId, savedId), { ...localDraft, noteId: savedId });
+        }
+        setDraftId(savedId);
+        setSearchParams({ draft: savedId }, { replace: true });
+      }
+
+      return savedId;
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      setSaveStatus('error');
+      return null;
+    } finally {
+      isSavingDraft.current = false;
+    }
+  }, [draftId, userId, formData, body, saveRemoteDraft, clearLocalDraft, saveLocalDraft, setSearchParams]);
+
+  const saveDraftRef = useRef(saveDraft);
+  useEffect(() => {
+    saveDraftRef.current = saveDraft;
+  }, [saveDraft]);
+
+  const shouldAutosave =
+    !isEditingPublished &&
+    !isLoadingDraft &&
+    !recoverableDraft &&
+    !isSaving &&
+    isDirty &&
+    hasDraftContent(formData, body);
+
+  // Autosave to the server every few seconds while there are unsaved changes
+  useEffect(() => {
+    if (!shouldAutosave) return;
+
+    const interval = setInterval(() => {
+      saveDraftRef.current();
+    }, AUTOSAVE_INTERVAL);
+    return () => clearInterval(interval);
+  }, [shouldAutosave]);
+
+  // Warn before leaving with changes that haven't reached the server
+  useEffect(() => {
+    if (!isDirty) return;
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+    };
+
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const handleRecoverDraft = () => {
+    if (!recoverableDraft) return;
+    applyDraft(recoverableDraft.fields, recoverableDraft.body);
+    setRecoverableDraft(null);
+    toast.success('Unsaved changes restored');
+  };
+
+  const handleDiscardRecovery = () => {
+    clearLocalDraft(draftKey);
+    setRecoverableDraft(null);
+  };
+
+  const handleSaveDraft = async () => {
+    const savedId = await saveDraft();
+    if (savedId) {
+      toast.success('Draft saved');
+    } else {
+      toast.error('Failed to save draft. Your changes are kept on this device.');
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -56,16 +344,45 @@ export default function NewSermonNote() {
     }));
   };
 
+  // Link the note to a directory church when the name matches one
+  const handleChurchNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const churchName = e.target.value;
+    const church = churches.find(
+      option => option.name.toLowerCase() === churchName.trim().toLowerCase()
+    );
+
+    setFormData(prev => ({
+      ...prev,
+      churchName,
+      churchId: church?.id ?? null,
+      // Church-only needs a linked church; fall back to the more private option
+      visibility: !church && prev.visibility === 'church' ? 'private' : prev.visibility
+    }));
+  };
+
   const addBibleVerse = useCallback(() => {
-    if (newVerse.trim()) {
+    const result = parseScriptureReference(newVerse);
+    if (result.ok) {
       setFormData(prev => ({
         ...prev,
-        bibleVerses: [...prev.bibleVerses.filter(v => v.trim()), newVerse.trim()]
+        bibleVerses: [...prev.bibleVerses.filter(v => v.trim()), result.reference.display]
       }));
       setNewVerse('');
     }
   }, [newVerse]);
 
+  // Replace a valid reference with its canonical form once the user leaves the input
+  const normalizeBibleVerse = useCallback((index: number) => {
+    setFormData(prev => {
+      const result = parseScriptureReference(prev.bibleVerses[index] || '');
+      if (!result.ok || result.reference.display === prev.bibleVerses[index]) return prev;
+
+      const bibleVerses = [...prev.bibleVerses];
+      bibleVerses[index] = result.reference.display;
+      return { ...prev, bibleVerses };
+    });
+  }, []);
+
   const removeBibleVerse = useCallback((index: number) => {
     setFormData(prev => ({
       ...prev,
@@ -76,51 +393,7 @@ export default function NewSermonNote() {
   const formatContent = () => {
     if (!editor) return null;
 
-    return {
-      type: 'doc',
-      content: [
-        {
-          type: 'heading',
-          attrs: { level: 1 },
-          content: [{ type: 'text', text: formData.title }]
-        },
-        {
-          type: 'paragraph',
-          content: [
-            { type: 'text', text: `Pastor: ${formData.pastorName}` }
-          ]
-        },
-        {
-          type: 'paragraph',
-          content: [
-            { type: 'text', text: `Church: ${formData.churchName}` }
-          ]
-        },
-        {
-          type: 'heading',
-          attrs: { level: 2 },
-          content: [{ type: 'text', text: 'Scripture References' }]
-        },
-        {
-          type: 'bulletList',
-          content: formData.bibleVerses
-            .filter(verse => verse.trim())
-            .map(verse => ({
-              type: 'listItem',
-              content: [{
-                type: 'paragraph',
-                content: [{ type: 'text', text: verse }]
-              }]
-            }))
-        },
-        {
-          type: 'heading',
-          attrs: { level: 2 },
-          content: [{ type: 'text', text: 'Notes' }]
-        },
-        ...(editor.getJSON().content || [])
-      ]
-    };
+    return formatSermonContent(formData, editor.getJSON());
   };
 
   const handlePublish = async () => {
@@ -142,34 +415,66 @@ export default function NewSermonNote() {
         throw new Error('Failed to format content');
       }
 
-      const { data, error } = await supabase
-        .from('sermon_notes')
-        .insert([{
-          title: formData.title,
-          content,
-          author_id: user.id,
-          scripture_references: formData.bibleVerses.filter(verse => verse.trim()),
-          visibility: 'public'
-        }])
-        .select()
-        .single();
+      const note = {
+        title: formData.title,
+        content,
+        ...getScriptureColumns([
+          ...formData.bibleVerses,
+          ...getBodyScriptureReferences(body)
+        ]),
+        ...getSermonNoteColumns(formData)
+      };
+
+      // Editing keeps the note's id, so its praises and comments stay attached
+      const { error } = isEditingPublished
+        ? await supabase
+            .from('sermon_notes')
+            .update({ ...note, updated_at: new Date().toISOString() })
+            .eq('id', draftId)
+        : draftId
+        ? await supabase
+            .from('sermon_notes')
+            .update({
+              ...note,
+              status: 'published',
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', draftId)
+        : await supabase
+            .from('sermon_notes')
+            .insert([{ ...note, author_id: user.id, status: 'published' }]);
 
       if (error) {
         console.error('Supabase error:', error);
         throw error;
       }
 
-      toast.success('Sermon notes published successfully!');
-      navigate('/');
+      clearLocalDraft(draftKey);
+      lastSavedSnapshot.current = getSnapshot(formData, body);
+      if (isEditingPublished) {
+        toast.success('Sermon notes updated successfully!');
+        navigate(`/sermon-notes/${draftId}`);
+      } else {
+        toast.success('Sermon notes published successfully!');
+        navigate('/');
+      }
     } catch (error) {
       console.error('Error publishing sermon notes:', error);
-      toast.error('Failed to publish sermon notes. Please try again.');
+      toast.error(
+        isEditingPublished
+          ? 'Failed to update sermon notes. Please try again.'
+          : 'Failed to publish sermon notes. Please try again.'
+      );
     } finally {
       setIsSaving(false);
       setShowPublishConfirm(false);
     }
   };
 
+  const verseFeedback = formData.bibleVerses.map(getVerseFeedback);
+  const newVerseFeedback = getVerseFeedback(newVerse);
+  const hasInvalidVerses = verseFeedback.some(feedback => feedback.error);
+
   const validateForm = () => {
     if (!editor) return false;
 
@@ -178,6 +483,7 @@ export default function NewSermonNote() {
       formData.pastorName.trim() &&
       formData.churchName.trim() &&
       formData.bibleVerses.some(verse => verse.trim()) &&
+      !hasInvalidVerses &&
       editor.getText().trim().length > 0
     );
 
@@ -196,12 +502,30 @@ export default function NewSermonNote() {
 
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-      <div className="bg-white rounded-lg shadow-sm border border-holy-blue-100">
+      {isLoadingDraft && <LoadingState />}
+      <div className={`bg-white rounded-lg shadow-sm border border-holy-blue-100 ${isLoadingDraft ? 'hidden' : ''}`}>
         <div className="p-6 border-b border-holy-blue-100">
           <div className="flex items-center justify-between">
-            <h1 className="text-2xl font-bold text-holy-blue-900">
-              New Sermon Notes
-            </h1>
+            <div>
+              <h1 className="text-2xl font-bold text-holy-blue-900">
+                {isEditingPublished ? 'Edit Sermon Notes' : 'New Sermon Notes'}
+              </h1>
+              <p className="text-sm text-holy-blue-500 mt-1" aria-live="polite">
+                {isEditingPublished
+                  ? isDirty
+                    ? 'Unsaved changes'
+                    : 'No changes yet'
+                  : saveStatus === 'saving'
+                  ? 'Saving draft...'
+                  : saveStatus === 'error'
+                  ? 'Autosave failed. Changes are kept on this device.'
+                  : isDirty && hasDraftContent(formData, body)
+                  ? 'Unsaved changes'
+                  : lastSavedAt
+                  ? `Draft saved at ${format(lastSavedAt, 'h:mm a')}`
+                  : 'Drafts are saved automatically'}
+              </p>
+            </div>
             <div className="flex items-center gap-3">
               <button
                 type="button"
@@ -219,25 +543,71 @@ export default function NewSermonNote() {
                 <Eye className="h-5 w-5 mr-2" />
                 {isPreview ? 'Edit' : 'Preview'}
               </button>
+              {!isEditingPublished && (
+                <button
+                  type="button"
+                  onClick={handleSaveDraft}
+                  disabled={isSaving || saveStatus === 'saving' || !hasDraftContent(formData, body)}
+                  className="btn-secondary"
+                >
+                  {saveStatus === 'saving' ? (
+                    <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="h-5 w-5 mr-2" />
+                  )}
+                  Save Draft
+                </button>
+              )}
               <button
                 type="button"
                 onClick={() => {
                   if (validateForm()) {
                     setShowPublishConfirm(true);
+                  } else if (hasInvalidVerses) {
+                    toast.error('Please fix the highlighted Bible verses');
                   } else {
                     toast.error('Please fill in all required fields');
                   }
                 }}
-                disabled={isSaving}
+                disabled={isSaving || (isEditingPublished && !isDirty)}
                 className="btn-primary"
               >
-                <Send className="h-5 w-5 mr-2" />
-                Publish
+                {isEditingPublished ? (
+                  <Check className="h-5 w-5 mr-2" />
+                ) : (
+                  <Send className="h-5 w-5 mr-2" />
+                )}
+                {isEditingPublished ? 'Save Changes' : 'Publish'}
               </button>
             </div>
           </div>
         </div>
 
+        {recoverableDraft && (
+          <div className="mx-6 mt-6 p-4 bg-divine-yellow-50 border border-divine-yellow-200 rounded-lg flex flex-col sm:flex-row sm:items-center gap-3">
+            <History className="h-5 w-5 text-divine-yellow-600 flex-shrink-0" />
+            <p className="flex-1 text-sm text-holy-blue-800">
+              We found unsaved changes from {format(new Date(recoverableDraft.updatedAt), 'MMM d, h:mm a')} on this device.
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={handleDiscardRecovery}
+                className="btn-secondary"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={handleRecoverDraft}
+                className="btn-primary py-2"
+              >
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="p-6 space-y-6">
           {/* Required Fields */}
           <div className="grid gap-6">
@@ -283,11 +653,52 @@ export default function NewSermonNote() {
                   id="churchName"
                   name="churchName"
                   value={formData.churchName}
-                  onChange={handleInputChange}
+                  onChange={handleChurchNameChange}
+                  list="church-options"
                   className="mt-1 block w-full rounded-md border border-holy-blue-200 px-3 py-2"
                   placeholder="Enter the church name"
                   required
                 />
+                <datalist id="church-options">
+                  {churches.map(church => (
+                    <option key={church.id} value={church.name} />
+                  ))}
+                </datalist>
+              </div>
+
+              <div>
+                <label htmlFor="preachedOn" className="block text-sm font-medium text-holy-blue-900">
+                  Date Preached
+                </label>
+                <input
+                  type="date"
+                  id="preachedOn"
+                  name="preachedOn"
+                  value={formData.preachedOn}
+                  onChange={handleInputChange}
+                  className="mt-1 block w-full rounded-md border border-holy-blue-200 px-3 py-2"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="service" className="block text-sm font-medium text-holy-blue-900">
+                  Service
+                </label>
+                <input
+                  type="text"
+                  id="service"
+                  name="service"
+                  value={formData.service}
+                  onChange={handleInputChange}
+                  list="service-options"
+                  className="mt-1 block w-full rounded-md border border-holy-blue-200 px-3 py-2"
+                  placeholder="e.g., Sunday Morning"
+                />
+                <datalist id="service-options">
+                  {SERVICE_OPTIONS.map(service => (
+                    <option key={service} value={service} />
+                  ))}
+                </datalist>
               </div>
             </div>
 
@@ -297,51 +708,84 @@ export default function NewSermonNote() {
               </label>
               <div className="mt-2 space-y-3">
                 {formData.bibleVerses.map((verse, index) => (
-                  <div key={index} className="flex items-center gap-2">
+                  <div key={index}>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={verse}
+                        onChange={(e) => {
+                          const newVerses = [...formData.bibleVerses];
+                          newVerses[index] = e.target.value;
+                          setFormData(prev => ({ ...prev, bibleVerses: newVerses }));
+                        }}
+                        onBlur={() => normalizeBibleVerse(index)}
+                        className={`flex-1 rounded-md border px-3 py-2 ${
+                          verseFeedback[index]?.error ? 'border-red-300' : 'border-holy-blue-200'
+                        }`}
+                        placeholder="e.g., John 3:16"
+                        aria-invalid={Boolean(verseFeedback[index]?.error)}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeBibleVerse(index)}
+                        className="p-2 text-holy-blue-600 hover:text-holy-blue-700"
+                      >
+                        <Close className="h-5 w-5" />
+                      </button>
+                    </div>
+                    {verseFeedback[index]?.error ? (
+                      <p className="mt-1 text-sm text-red-600">{verseFeedback[index].error}</p>
+                    ) : verseFeedback[index]?.display && verseFeedback[index].display !== verse ? (
+                      <p className="mt-1 text-sm text-holy-blue-500">Will be saved as {verseFeedback[index].display}</p>
+                    ) : null}
+                  </div>
+                ))}
+                <div>
+                  <div className="flex items-center gap-2">
                     <input
                       type="text"
-                      value={verse}
-                      onChange={(e) => {
-                        const newVerses = [...formData.bibleVerses];
-                        newVerses[index] = e.target.value;
-                        setFormData(prev => ({ ...prev, bibleVerses: newVerses }));
+                      value={newVerse}
+                      onChange={(e) => setNewVerse(e.target.value)}
+                      onKeyPress={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          addBibleVerse();
+                        }
                       }}
                       className="flex-1 rounded-md border border-holy-blue-200 px-3 py-2"
-                      placeholder="e.g., John 3:16"
+                      placeholder="Add another verse"
                     />
                     <button
                       type="button"
-                      onClick={() => removeBibleVerse(index)}
-                      className="p-2 text-holy-blue-600 hover:text-holy-blue-700"
+                      onClick={addBibleVerse}
+                      disabled={!newVerseFeedback.display}
+                      className="p-2 text-holy-blue-600 hover:text-holy-blue-700 disabled:opacity-50"
                     >
-                      <Close className="h-5 w-5" />
+                      <Plus className="h-5 w-5" />
                     </button>
                   </div>
-                ))}
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={newVerse}
-                    onChange={(e) => setNewVerse(e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter') {
-                        e.preventDefault();
-                        addBibleVerse();
-                      }
-                    }}
-                    className="flex-1 rounded-md border border-holy-blue-200 px-3 py-2"
-                    placeholder="Add another verse"
-                  />
-                  <button
-                    type="button"
-                    onClick={addBibleVerse}
-                    className="p-2 text-holy-blue-600 hover:text-holy-blue-700"
-                  >
-                    <Plus className="h-5 w-5" />
-                  </button>
+                  {newVerseFeedback.error ? (
+                    <p className="mt-1 text-sm text-red-600">{newVerseFeedback.error}</p>
+                  ) : newVerseFeedback.display && newVerseFeedback.display !== newVerse.trim() ? (
+                    <p className="mt-1 text-sm text-holy-blue-500">Will be added as {newVerseFeedback.display}</p>
+                  ) : null}
                 </div>
               </div>
             </div>
+
+            <div>
+              <label htmlFor="tags" className="block text-sm font-medium text-holy-blue-900">
+                Tags
+              </label>
+              <TagInput
+                id="tags"
+                tags={formData.tags}
+                onChange={(tags) => setFormData(prev => ({ ...prev, tags }))}
+              />
+              <p className="mt-1 text-xs text-holy-blue-500">
+                Topics like grace or forgiveness, so others can find notes on them
+              </p>
+            </div>
           </div>
 
           {/* Editor */}
@@ -406,13 +850,53 @@ export default function NewSermonNote() {
               <AlertTriangle className="h-6 w-6 text-holy-blue-500 flex-shrink-0" />
               <div>
                 <h3 className="text-lg font-semibold text-holy-blue-900">
-                  Publish Sermon Notes
+                  {isEditingPublished ? 'Save Changes' : 'Publish Sermon Notes'}
                 </h3>
                 <p className="text-holy-blue-600 mt-1">
-                  Are you sure you want to publish these sermon notes? This will make them visible to others.
+                  {isEditingPublished
+                    ? 'Save your changes to these sermon notes? Praises and comments are kept.'
+                    : 'Are you sure you want to publish these sermon notes? Choose who can see them.'}
                 </p>
               </div>
             </div>
+            <fieldset className="space-y-2 mb-6">
+              <legend className="text-sm font-medium text-holy-blue-900 mb-2">Who can see these notes</legend>
+              {VISIBILITY_OPTIONS.map(({ value, label, description, icon: Icon }) => {
+                const disabled = value === 'church' && !formData.churchId;
+
+                return (
+                  <label
+                    key={value}
+                    className={`flex items-start gap-3 rounded-lg border p-3 ${
+                      formData.visibility === value
+                        ? 'border-holy-blue-500 bg-holy-blue-50'
+                        : 'border-holy-blue-100'
+                    } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}
+                  >
+                    <input
+                      type="radio"
+                      name="visibility"
+                      value={value}
+                      checked={formData.visibility === value}
+                      onChange={() => setFormData(prev => ({ ...prev, visibility: value }))}
+                      disabled={disabled}
+                      className="mt-1"
+                    />
+                    <Icon className="h-5 w-5 text-holy-blue-500 flex-shrink-0 mt-0.5" />
+                    <span>
+                      <span className="block text-sm font-medium text-holy-blue-900">{label}</span>
+                      <span className="block text-xs text-holy-blue-600">
+                        {value === 'church' && formData.churchId
+                          ? `Only active members of ${formData.churchName.trim()} and you`
+                          : disabled
+                          ? 'Choose your church from the list above to share with its members'
+                          : description}
+                      </span>
+                    </span>
+                  </label>
+                );
+              })}
+            </fieldset>
             <div className="flex justify-end gap-3">
               <button
                 type="button"
@@ -430,7 +914,12 @@ export default function NewSermonNote() {
                 {isSaving ? (
                   <>
                     <span className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2" />
-                    Publishing...
+                    {isEditingPublished ? 'Saving...' : 'Publishing...'}
+                  </>
+                ) : isEditingPublished ? (
+                  <>
+                    <Check className="h-5 w-5 mr-2" />
+                    Save Changes
                   </>
                 ) : (
                   <>
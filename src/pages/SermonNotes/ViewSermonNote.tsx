@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '../../lib/supabase';
 import { LoadingState } from '../../components/ui/LoadingState';
-import { HelpingHand, MessageCircle, Share2, BookOpen, ArrowLeft } from 'lucide-react';
+import { HelpingHand, MessageCircle, Share2, ArrowLeft, Edit2, History, Lock, Link2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { DefaultAvatar } from '../../components/profile/DefaultAvatar';
 import { useAuth } from '../../contexts/AuthContext';
@@ -12,12 +12,21 @@ import { useCommentStore } from '../../stores/commentStore';
 import { CommentSection } from '../../components/comments/CommentSection';
 import { toast } from 'sonner';
 import { ShareButton } from '../../components/share/ShareButton';
+import { RevisionHistory } from '../../components/sermon/RevisionHistory';
+import { SermonNoteContent } from '../../components/sermon/SermonNoteContent';
+import { ScriptureReferenceChip } from '../../components/scripture/ScriptureReferenceChip';
+import { formatPreachedOn, type SermonNoteVisibility } from '../../utils/sermonContent';
+import { getTagPath } from '../../utils/tags';
+import type { JSONContent } from '@tiptap/react';
 
 interface SermonNote {
   id: string;
   title: string;
-  content: any;
+  content: JSONContent;
   created_at: string;
+  status: 'draft' | 'published';
+  visibility: SermonNoteVisibility;
+  share_token: string | null;
   author: {
     id: string;
     username: string;
@@ -28,6 +37,12 @@ interface SermonNote {
   comment_count: number;
   user_has_praised: boolean;
   scripture_references: string[];
+  pastor_name: string | null;
+  church_id: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
 }
 
 export default function ViewSermonNote() {
@@ -37,6 +52,7 @@ export default function ViewSermonNote() {
   const [note, setNote] = useState<SermonNote | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const { togglePraise, syncPraiseCount } = usePraiseStore();
   const { commentCounts, initializeCommentState } = useCommentStore();
 
@@ -65,7 +81,16 @@ export default function ViewSermonNote() {
           title,
           content,
           created_at,
+          status,
+          visibility,
+          share_token,
           scripture_references,
+          pastor_name,
+          church_id,
+          church_name,
+          preached_on,
+          service,
+          tags,
           author:profiles!sermon_notes_author_id_fkey (
             id,
             username,
@@ -79,6 +104,11 @@ export default function ViewSermonNote() {
         .eq('id', id)
         .single();
 
+      // Row level security hides notes the user may not see, so they come back as no row
+      if (error?.code === 'PGRST116') {
+        setError("This sermon note doesn't exist or isn't shared with you");
+        return;
+      }
       if (error) throw error;
 
       const processedNote = {
@@ -118,6 +148,28 @@ export default function ViewSermonNote() {
     }
   };
 
+  const handleRegenerateLink = async () => {
+    if (!note) return;
+
+    const { data, error } = await supabase.rpc('regenerate_share_token', {
+      p_note_id: note.id
+    });
+
+    if (error) throw error;
+    setNote(prev => prev && { ...prev, share_token: data as string });
+  };
+
+  const handleRevokeLink = async () => {
+    if (!note) return;
+
+    const { error } = await supabase.rpc('revoke_share_token', {
+      p_note_id: note.id
+    });
+
+    if (error) throw error;
+    setNote(prev => prev && { ...prev, share_token: null });
+  };
+
   if (loading) return <LoadingState />;
 
   if (error || !note) {
@@ -142,41 +194,6 @@ export default function ViewSermonNote() {
   // Get comment count from store or fallback to initial value
   const commentCount = commentCounts.get(note.id) ?? note.comment_count;
 
-  // Render the content blocks
-  const renderContent = (content: any) => {
-    if (!content || !content.content) return null;
-
-    return content.content.map((block: any, index: number) => {
-      switch (block.type) {
-        case 'paragraph':
-          return (
-            <p key={index} className="mb-4">
-              {block.content?.[0]?.text || ''}
-            </p>
-          );
-        case 'heading':
-          const HeadingTag = `h${block.attrs.level}` as keyof JSX.IntrinsicElements;
-          return (
-            <HeadingTag key={index} className="font-bold mb-4">
-              {block.content?.[0]?.text || ''}
-            </HeadingTag>
-          );
-        case 'bulletList':
-          return (
-            <ul key={index} className="list-disc pl-6 mb-4">
-              {block.content.map((item: any, itemIndex: number) => (
-                <li key={itemIndex}>
-                  {item.content?.[0]?.content?.[0]?.text || ''}
-                </li>
-              ))}
-            </ul>
-          );
-        default:
-          return null;
-      }
-    });
-  };
-
   return (
     <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
       <button
@@ -187,6 +204,17 @@ export default function ViewSermonNote() {
         Back
       </button>
 
+      {note.status === 'draft' && (
+        <div className="mb-6 p-4 bg-divine-yellow-50 border border-divine-yellow-200 rounded-lg flex items-center justify-between gap-3">
+          <p className="text-sm text-holy-blue-800">
+            This note is a draft and is only visible to you.
+          </p>
+          <Link to={`/sermon-notes/${note.id}/edit`} className="btn-secondary">
+            Continue Editing
+          </Link>
+        </div>
+      )}
+
       <article className="space-y-6">
         <div className="bg-white rounded-lg shadow-sm border border-holy-blue-100">
           <div className="p-8">
@@ -211,34 +239,67 @@ export default function ViewSermonNote() {
                   <p className="text-holy-blue-600 text-sm">@{note.author.username}</p>
                 </div>
               </div>
-              <span className="ml-auto text-sm text-holy-blue-500">
-                {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
-              </span>
+              <div className="ml-auto flex items-center gap-3">
+                {note.visibility !== 'public' && (
+                  <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-holy-blue-50 text-xs font-medium text-holy-blue-700">
+                    {note.visibility === 'unlisted' ? <Link2 className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                    {note.visibility === 'church'
+                      ? `Only members of ${note.church_name || 'this church'}`
+                      : note.visibility === 'unlisted'
+                      ? 'Unlisted'
+                      : 'Only you'}
+                  </span>
+                )}
+                <span className="text-sm text-holy-blue-500">
+                  {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+                </span>
+              </div>
             </div>
 
             {/* Scripture References */}
             {note.scripture_references && note.scripture_references.length > 0 && (
               <div className="flex flex-wrap gap-2 mb-6">
                 {note.scripture_references.map((reference, index) => (
-                  <div
-                    key={index}
-                    className="inline-flex items-center px-3 py-1 rounded-full bg-holy-blue-50 text-holy-blue-600 text-sm"
-                  >
-                    <BookOpen className="h-4 w-4 mr-1" />
-                    {reference}
-                  </div>
+                  <ScriptureReferenceChip key={index} reference={reference} />
                 ))}
               </div>
             )}
 
             {/* Content */}
             <div className="prose max-w-none">
-              <h1 className="text-3xl font-bold text-holy-blue-900 mb-6">
+              <h1 className="text-3xl font-bold text-holy-blue-900 mb-2">
                 {note.title}
               </h1>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-holy-blue-600 mb-6 not-prose">
+                {note.pastor_name && <span>{note.pastor_name}</span>}
+                {note.church_name && (
+                  note.church_id ? (
+                    <Link to={`/church/${note.church_id}`} className="hover:text-holy-blue-800">
+                      {note.church_name}
+                    </Link>
+                  ) : (
+                    <span>{note.church_name}</span>
+                  )
+                )}
+                {note.preached_on && <span>{formatPreachedOn(note.preached_on)}</span>}
+                {note.service && <span>{note.service}</span>}
+              </div>
               <div className="text-holy-blue-800">
-                {renderContent(note.content)}
+                <SermonNoteContent content={note.content} />
               </div>
+              {note.tags?.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-6 not-prose">
+                  {note.tags.map(tag => (
+                    <Link
+                      key={tag}
+                      to={getTagPath(tag)}
+                      className="px-3 py-1 rounded-full bg-holy-blue-50 text-sm text-holy-blue-700 hover:bg-holy-blue-100"
+                    >
+                      #{tag}
+                    </Link>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -272,20 +333,56 @@ export default function ViewSermonNote() {
                 <span>{commentCount}</span>
               </a>
 
+              {/* Revisions include drafts, so only the author sees them */}
+              {user?.id === note.author.id && (
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className={cn(
+                    "ml-auto flex items-center gap-2 text-sm transition-colors",
+                    showHistory ? "text-holy-blue-700" : "text-holy-blue-500 hover:text-holy-blue-600"
+                  )}
+                >
+                  <History className="h-5 w-5" />
+                  <span>History</span>
+                </button>
+              )}
+
+              {user?.id === note.author.id && (
+                <Link
+                  to={`/sermon-notes/${note.id}/edit`}
+                  className="flex items-center gap-2 text-sm text-holy-blue-500 hover:text-holy-blue-600"
+                >
+                  <Edit2 className="h-5 w-5" />
+                  <span>Edit</span>
+                </Link>
+              )}
+
               <ShareButton
                 noteId={note.id}
                 noteTitle={note.title}
                 description={`Check out this sermon note by ${note.author.full_name}`}
-                className="ml-auto"
+                isUnlisted={note.visibility === 'unlisted'}
+                shareToken={note.share_token}
+                onRegenerateLink={user?.id === note.author.id ? handleRegenerateLink : undefined}
+                onRevokeLink={user?.id === note.author.id ? handleRevokeLink : undefined}
               />
             </div>
           </div>
         </div>
 
+        {showHistory && user?.id === note.author.id && (
+          <RevisionHistory
+            noteId={note.id}
+            canRestore={user?.id === note.author.id}
+            onRestored={loadSermonNote}
+          />
+        )}
+
         {/* Comments Section */}
         <div id="comments">
           <CommentSection
             sermonNoteId={note.id}
+            noteAuthorId={note.author.id}
             onCommentAdded={() => {
               // Let the store handle the count update
               initializeCommentState(note.id);
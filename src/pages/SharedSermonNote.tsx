@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { Link2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import type { JSONContent } from '@tiptap/react';
+import { supabase } from '../lib/supabase';
+import { LoadingState } from '../components/ui/LoadingState';
+import { DefaultAvatar } from '../components/profile/DefaultAvatar';
+import { SermonNoteContent } from '../components/sermon/SermonNoteContent';
+import { ScriptureReferenceChip } from '../components/scripture/ScriptureReferenceChip';
+import { formatPreachedOn } from '../utils/sermonContent';
+
+interface SharedNote {
+  id: string;
+  title: string;
+  content: JSONContent;
+  created_at: string;
+  scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  author: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+}
+
+// Read-only view of an unlisted note, opened through its secret link
+export default function SharedSermonNote() {
+  const { token } = useParams();
+  const [note, setNote] = useState<SharedNote | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadNote = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase
+          .rpc('get_shared_sermon_note', { p_token: token })
+          .select(`
+            id,
+            title,
+            content,
+            created_at,
+            scripture_references,
+            pastor_name,
+            church_name,
+            preached_on,
+            service,
+            author:profiles!sermon_notes_author_id_fkey (
+              id,
+              username,
+              full_name,
+              avatar_url
+            )
+          `)
+          .maybeSingle();
+
+        if (error) throw error;
+        setNote(data as unknown as SharedNote | null);
+      } catch (error) {
+        console.error('Error loading shared sermon note:', error);
+        setNote(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNote();
+  }, [token]);
+
+  if (loading) return <LoadingState />;
+
+  if (!note) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <h2 className="text-2xl font-bold text-holy-blue-900 mb-2">
+            This link no longer works
+          </h2>
+          <p className="text-holy-blue-600 mb-6">
+            The author may have revoked it or stopped sharing the note.
+          </p>
+          <Link to="/" className="btn-primary inline-flex items-center">
+            Go Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <article className="bg-white rounded-lg shadow-sm border border-holy-blue-100">
+        <div className="p-8">
+          {/* Author Info */}
+          <div className="flex items-center mb-6">
+            <Link to={`/profile/${note.author.id}`} className="flex items-center">
+              {note.author.avatar_url ? (
+                <img
+                  src={note.author.avatar_url}
+                  alt={note.author.full_name}
+                  className="h-12 w-12 rounded-full object-cover"
+                />
+              ) : (
+                <div className="h-12 w-12 rounded-full overflow-hidden">
+                  <DefaultAvatar size={48} />
+                </div>
+              )}
+              <div className="ml-3">
+                <h3 className="text-holy-blue-900 font-semibold">
+                  {note.author.full_name}
+                </h3>
+                <p className="text-holy-blue-600 text-sm">@{note.author.username}</p>
+              </div>
+            </Link>
+            <span className="ml-auto text-sm text-holy-blue-500">
+              {formatDistanceToNow(new Date(note.created_at), { addSuffix: true })}
+            </span>
+          </div>
+
+          {/* Scripture References */}
+          {note.scripture_references?.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-6">
+              {note.scripture_references.map((reference, index) => (
+                <ScriptureReferenceChip key={index} reference={reference} />
+              ))}
+            </div>
+          )}
+
+          {/* Content */}
+          <div className="prose max-w-none">
+            <h1 className="text-3xl font-bold text-holy-blue-900 mb-2">
+              {note.title}
+            </h1>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-holy-blue-600 mb-6 not-prose">
+              {note.pastor_name && <span>{note.pastor_name}</span>}
+              {note.church_name && <span>{note.church_name}</span>}
+              {note.preached_on && <span>{formatPreachedOn(note.preached_on)}</span>}
+              {note.service && <span>{note.service}</span>}
+            </div>
+            <div className="text-holy-blue-800">
+              <SermonNoteContent content={note.content} />
+            </div>
+          </div>
+
+          <p className="flex items-center gap-2 pt-6 mt-6 border-t border-holy-blue-100 text-sm text-holy-blue-500">
+            <Link2 className="h-4 w-4" />
+            {note.author.full_name} shared this note with you by link. It isn't listed publicly.
+          </p>
+        </div>
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Tag as TagIcon, AlertCircle, Scroll, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { JSONContent } from '@tiptap/react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { SermonCard } from '../components/sermon/SermonCard';
+import { LoadingState } from '../components/ui/LoadingState';
+import { normalizeTag } from '../utils/tags';
+import type { SermonNoteVisibility } from '../utils/sermonContent';
+
+const PAGE_SIZE = 20;
+
+interface SermonNote {
+  id: string;
+  title: string;
+  content: JSONContent;
+  created_at: string;
+  visibility: SermonNoteVisibility;
+  author: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+  praise_count: number;
+  comment_count: number;
+  user_has_praised: boolean;
+  scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
+}
+
+type SermonNoteRow = Omit<SermonNote, 'praise_count' | 'comment_count' | 'user_has_praised'> & {
+  praise_count: { count: number }[];
+  comment_count: { count: number }[];
+  user_has_praised: { user_id: string }[] | null;
+};
+
+export default function Tag() {
+  const { tag: tagParam } = useParams();
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<SermonNote[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tag = normalizeTag(tagParam || '');
+
+  const loadNotes = useCallback(async (after: SermonNote | null) => {
+    try {
+      if (after) {
+        setLoadingMore(true);
+      } else {
+        setLoading(true);
+      }
+      setError(null);
+
+      let query = supabase
+        .from('sermon_notes')
+        .select(`
+          id,
+          title,
+          content,
+          created_at,
+          visibility,
+          scripture_references,
+          pastor_name,
+          church_name,
+          preached_on,
+          service,
+          tags,
+          author:profiles!sermon_notes_author_id_fkey (
+            id,
+            username,
+            full_name,
+            avatar_url
+          ),
+          praise_count:praises(count),
+          comment_count:comments(count),
+          user_has_praised:praises!left(user_id)
+        `)
+        .eq('status', 'published')
+        .neq('visibility', 'unlisted')
+        .contains('tags', [tag])
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(PAGE_SIZE + 1);
+
+      if (after) {
+        query = query.or(
+          `created_at.lt."${after.created_at}",and(created_at.eq."${after.created_at}",id.lt.${after.id})`
+        );
+      }
+
+      const { data, error: fetchError } = await query;
+
+      if (fetchError) throw fetchError;
+
+      const rows = (data || []) as unknown as SermonNoteRow[];
+      const pageNotes: SermonNote[] = rows.slice(0, PAGE_SIZE).map(note => ({
+        ...note,
+        praise_count: note.praise_count?.[0]?.count || 0,
+        comment_count: note.comment_count?.[0]?.count || 0,
+        user_has_praised: note.user_has_praised?.some(praise => praise.user_id === user?.id) || false
+      }));
+
+      setNotes(prev => (after ? [...prev, ...pageNotes] : pageNotes));
+      setHasMore(rows.length > PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading tagged notes:', err);
+      setError('Failed to load sermon notes');
+      toast.error('Failed to load sermon notes');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [tag, user?.id]);
+
+  useEffect(() => {
+    setNotes([]);
+    setHasMore(false);
+
+    if (tag) {
+      loadNotes(null);
+    } else {
+      setLoading(false);
+    }
+  }, [tag, loadNotes]);
+
+  if (!tag) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+          <h2 className="text-2xl font-bold text-holy-blue-900 mb-4">Tag not found</h2>
+          <Link to="/feed" className="btn-primary inline-flex items-center">
+            Back to Feed
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-holy-blue-900 flex items-center gap-2">
+          <TagIcon className="h-8 w-8 text-holy-blue-500" />
+          #{tag}
+        </h1>
+        <p className="text-holy-blue-600 mt-1">
+          Sermon notes tagged {tag}, newest first
+        </p>
+      </div>
+
+      {loading ? (
+        <LoadingState />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start gap-3">
+          <AlertCircle className="h-5 w-5 text-red-500 mt-0.5" />
+          <p className="text-red-700">{error}</p>
+        </div>
+      ) : notes.length > 0 ? (
+        <div className="space-y-6">
+          {notes.map(note => (
+            <SermonCard key={note.id} note={note} />
+          ))}
+
+          {hasMore && (
+            <div className="flex justify-center pt-2">
+              <button
+                onClick={() => loadNotes(notes[notes.length - 1])}
+                disabled={loadingMore}
+                className="btn-secondary inline-flex items-center"
+              >
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-holy-blue-50 rounded-lg">
+          <Scroll className="h-12 w-12 text-holy-blue-400 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-holy-blue-900 mb-2">
+            No sermon notes yet
+          </h3>
+          <p className="text-holy-blue-600">
+            Nobody has tagged a sermon note with {tag} yet.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
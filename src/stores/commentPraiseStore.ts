@@ -0,0 +1,153 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+
+interface CommentPraiseStateRow {
+  comment_id: string;
+  praise_count: number;
+  has_praised: boolean;
+}
+
+interface CommentPraiseState {
+  praisedComments: Set<string>;
+  praiseCounts: Map<string, number>;
+  pendingToggles: Set<string>;
+  toggleCommentPraise: (commentId: string) => Promise<void>;
+  initializeCommentPraises: (commentIds: string[]) => Promise<void>;
+  syncCommentPraise: (commentId: string) => Promise<void>;
+  applyCommentPraiseCount: (commentId: string, praiseCount: number) => boolean;
+  clearAllCommentPraises: () => void;
+}
+
+const applyPraiseState = (
+  state: CommentPraiseState,
+  rows: CommentPraiseStateRow[]
+): Partial<CommentPraiseState> => {
+  const newPraisedComments = new Set(state.praisedComments);
+  const newPraiseCounts = new Map(state.praiseCounts);
+
+  rows.forEach(({ comment_id, praise_count, has_praised }) => {
+    if (has_praised) {
+      newPraisedComments.add(comment_id);
+    } else {
+      newPraisedComments.delete(comment_id);
+    }
+
+    newPraiseCounts.set(comment_id, Number(praise_count));
+  });
+
+  return {
+    praisedComments: newPraisedComments,
+    praiseCounts: newPraiseCounts
+  };
+};
+
+export const useCommentPraiseStore = create<CommentPraiseState>()((set, get) => ({
+  praisedComments: new Set<string>(),
+  praiseCounts: new Map<string, number>(),
+  pendingToggles: new Set<string>(),
+
+  clearAllCommentPraises: () => {
+    set({
+      praisedComments: new Set<string>(),
+      praiseCounts: new Map<string, number>(),
+      pendingToggles: new Set<string>()
+    });
+  },
+
+  // Comment rows carry their praise count, so the comments subscription passes on each
+  // change. An update whose count differs from what this client knows is a praise change.
+  applyCommentPraiseCount: (commentId: string, praiseCount: number) => {
+    const knownCount = get().praiseCounts.get(commentId);
+    if (knownCount === undefined || knownCount === praiseCount) return false;
+
+    if (!get().pendingToggles.has(commentId)) {
+      set(state => ({
+        praiseCounts: new Map(state.praiseCounts).set(commentId, praiseCount)
+      }));
+    }
+    return true;
+  },
+
+  initializeCommentPraises: async (commentIds: string[]) => {
+    const ids = commentIds.filter(id => !id.startsWith('temp-'));
+    if (ids.length === 0) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_comment_praise_states', {
+        p_comment_ids: ids
+      });
+
+      if (error) throw error;
+
+      set(state => applyPraiseState(state, (data || []) as CommentPraiseStateRow[]));
+    } catch (error) {
+      logger.error('initializeCommentPraises', 'Failed to initialize comment praise state', error as Error, {
+        count: ids.length
+      });
+    }
+  },
+
+  syncCommentPraise: async (commentId: string) => {
+    try {
+      const { data, error } = await supabase.rpc('get_comment_praise_state', {
+        p_comment_id: commentId
+      });
+
+      if (error) throw error;
+
+      set(state => applyPraiseState(state, [{ comment_id: commentId, ...data }]));
+    } catch (error) {
+      logger.error('syncCommentPraise', 'Failed to sync comment praise', error as Error, {
+        commentId
+      });
+    }
+  },
+
+  toggleCommentPraise: async (commentId: string) => {
+    if (get().pendingToggles.has(commentId)) {
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      set(state => ({
+        pendingToggles: new Set(state.pendingToggles).add(commentId)
+      }));
+
+      const { data, error } = await supabase.rpc('toggle_comment_praise', {
+        p_comment_id: commentId
+      });
+
+      if (error) throw error;
+
+      const { action, praise_count } = data;
+
+      set(state => applyPraiseState(state, [{
+        comment_id: commentId,
+        praise_count,
+        has_praised: action === 'added'
+      }]));
+
+      logger.info('toggleCommentPraise', 'Successfully toggled comment praise', {
+        commentId,
+        userId: user.id,
+        action,
+        newCount: praise_count
+      });
+    } catch (error) {
+      logger.error('toggleCommentPraise', 'Failed to toggle comment praise', error as Error, {
+        commentId
+      });
+
+      await get().syncCommentPraise(commentId);
+      throw error;
+    } finally {
+      set(state => ({
+        pendingToggles: new Set([...state.pendingToggles].filter(id => id !== commentId))
+      }));
+    }
+  }
+}));
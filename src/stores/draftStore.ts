@@ -0,0 +1,159 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { JSONContent } from '@tiptap/react';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import {
+  emptySermonNoteFields,
+  formatSermonContent,
+  getBodyScriptureReferences,
+  getSermonNoteColumns,
+  type SermonNoteFields
+} from '../utils/sermonContent';
+import { getScriptureColumns } from '../utils/scripture';
+
+// Autosave drafts to the server this often while the form has unsaved changes
+export const AUTOSAVE_INTERVAL = 5000; // 5 seconds in milliseconds
+
+// Local drafts are keyed by note id, or by this key before the first server save
+export const NEW_DRAFT_KEY = 'new';
+
+// Keys are scoped to the user, so someone else signing in on the device can't see them
+export const getLocalDraftKey = (userId: string, key: string) => `${userId}:${key}`;
+
+export interface SermonDraft {
+  noteId: string | null;
+  fields: SermonNoteFields;
+  body: JSONContent;
+  updatedAt: number;
+}
+
+interface DraftState {
+  localDrafts: Record<string, SermonDraft>;
+  saveLocalDraft: (key: string, draft: SermonDraft) => void;
+  clearLocalDraft: (key: string) => void;
+  clearLocalDrafts: () => void;
+  saveRemoteDraft: (draft: SermonDraft) => Promise<string>;
+  deleteRemoteDraft: (noteId: string) => Promise<void>;
+}
+
+export const useDraftStore = create<DraftState>()(
+  persist(
+    (set) => ({
+      localDrafts: {},
+
+      saveLocalDraft: (key: string, draft: SermonDraft) => {
+        set(state => ({
+          localDrafts: { ...state.localDrafts, [key]: draft }
+        }));
+      },
+
+      clearLocalDraft: (key: string) => {
+        set(state => {
+          const newLocalDrafts = { ...state.localDrafts };
+          delete newLocalDrafts[key];
+          return { localDrafts: newLocalDrafts };
+        });
+      },
+
+      clearLocalDrafts: () => {
+        set({ localDrafts: {} });
+      },
+
+      saveRemoteDraft: async (draft: SermonDraft) => {
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) throw new Error('You must be logged in to save drafts');
+
+          const payload = {
+            title: draft.fields.title.trim(),
+            content: formatSermonContent(draft.fields, draft.body),
+            ...getScriptureColumns([
+              ...draft.fields.bibleVerses,
+              ...getBodyScriptureReferences(draft.body)
+            ]),
+            ...getSermonNoteColumns(draft.fields),
+            updated_at: new Date(draft.updatedAt).toISOString()
+          };
+
+          const { data, error } = draft.noteId
+            ? await supabase
+                .from('sermon_notes')
+                .update(payload)
+                .eq('id', draft.noteId)
+                .eq('status', 'draft')
+                .select('id')
+                .single()
+            : await supabase
+                .from('sermon_notes')
+                .insert([{
+                  ...payload,
+                  author_id: user.id,
+                  status: 'draft'
+                }])
+                .select('id')
+                .single();
+
+          if (error) throw error;
+
+          logger.info('saveRemoteDraft', 'Successfully saved draft', {
+            noteId: data.id,
+            userId: user.id
+          });
+
+          return data.id as string;
+        } catch (error) {
+          logger.error('saveRemoteDraft', 'Failed to save draft', error as Error, {
+            noteId: draft.noteId
+          });
+          throw error;
+        }
+      },
+
+      deleteRemoteDraft: async (noteId: string) => {
+        try {
+          const { error } = await supabase
+            .from('sermon_notes')
+            .delete()
+            .eq('id', noteId)
+            .eq('status', 'draft');
+
+          if (error) throw error;
+
+          set(state => ({
+            localDrafts: Object.fromEntries(
+              Object.entries(state.localDrafts).filter(([key]) => !key.endsWith(`:${noteId}`))
+            )
+          }));
+
+          logger.info('deleteRemoteDraft', 'Successfully deleted draft', { noteId });
+        } catch (error) {
+          logger.error('deleteRemoteDraft', 'Failed to delete draft', error as Error, {
+            noteId
+          });
+          throw error;
+        }
+      }
+    }),
+    {
+      name: 'sermon-draft-store',
+      partialize: (state) => ({
+        localDrafts: state.localDrafts
+      }),
+      // Drafts saved before a field was added are filled in with its empty value.
+      // Drafts saved before keys were scoped to a user can't be told apart, so they're dropped.
+      merge: (persistedState, currentState) => {
+        const persistedDrafts = (persistedState as Partial<DraftState> | undefined)?.localDrafts || {};
+        return {
+          ...currentState,
+          localDrafts: Object.fromEntries(
+            Object.entries(persistedDrafts).filter(([key]) => key.includes(':')).map(([key, draft]) => [
+              key,
+              { ...draft, fields: { ...emptySermonNoteFields, ...draft.fields } }
+            ])
+          )
+        };
+      }
+    }
+  )
+);
@@ -0,0 +1,368 @@
+import { create } from 'zustand';
+import type { JSONContent } from '@tiptap/react';
+import { startOfDay, startOfMonth, startOfWeek } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { SermonNoteVisibility } from '../utils/sermonContent';
+
+const PAGE_SIZE = 20;
+
+export type FeedFilter = 'recent' | 'trending' | 'following' | 'praised' | 'church';
+
+// Period over which praise is counted for the Most Praised ranking
+export type PraiseWindow = 'today' | 'week' | 'month' | 'all';
+
+export interface FeedNote {
+  id: string;
+  title: string;
+  content: JSONContent;
+  created_at: string;
+  visibility: SermonNoteVisibility;
+  author: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+  };
+  praise_count: number;
+  comment_count: number;
+  user_has_praised: boolean;
+  scripture_references: string[];
+  pastor_name: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
+}
+
+type FeedNoteRow = Omit<FeedNote, 'praise_count' | 'comment_count' | 'user_has_praised'> & {
+  praise_count: { count: number }[];
+  comment_count: { count: number }[];
+  user_has_praised: { user_id: string }[] | null;
+};
+
+// Filters from the feed's expandable panel. Empty strings don't filter.
+export interface FeedAdvancedFilters {
+  pastor: string;
+  church: string;
+  from: string;
+  to: string;
+  book: string;
+  tag: string;
+}
+
+export const emptyFeedAdvancedFilters: FeedAdvancedFilters = {
+  pastor: '',
+  church: '',
+  from: '',
+  to: '',
+  book: '',
+  tag: ''
+};
+
+export interface FeedQuery {
+  filter: FeedFilter;
+  praiseWindow: PraiseWindow;
+  search: string;
+  advanced: FeedAdvancedFilters;
+  userId: string | null;
+}
+
+// Position of the last loaded note; the next page starts strictly after it. Ranked pages,
+// whose order shifts as praise comes in, go by the number of notes loaded instead.
+interface FeedCursor {
+  createdAt: string;
+  id: string;
+  offset: number;
+}
+
+interface FeedPage {
+  notes: FeedNote[];
+  cursor: FeedCursor | null;
+  hasMore: boolean;
+}
+
+interface FeedState {
+  notes: FeedNote[];
+  query: FeedQuery | null;
+  cursor: FeedCursor | null;
+  hasMore: boolean;
+  loading: boolean;
+  loadingMore: boolean;
+  error: string | null;
+  scrollY: number;
+  loadFeed: (query: FeedQuery) => Promise<void>;
+  loadMore: () => Promise<void>;
+  saveScrollPosition: (scrollY: number) => void;
+}
+
+const FEED_NOTE_COLUMNS = `
+  id,
+  title,
+  content,
+  created_at,
+  visibility,
+  scripture_references,
+  pastor_name,
+  church_name,
+  preached_on,
+  service,
+  tags,
+  author:profiles!sermon_notes_author_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  praise_count:praises(count),
+  comment_count:comments(count),
+  user_has_praised:praises!left(user_id)
+`;
+
+const selectNotes = () => supabase.from('sermon_notes').select(FEED_NOTE_COLUMNS);
+
+// Notes by followed authors come from an RPC returning sermon_notes rows, so the same embeds,
+// filters and cursor apply. Its select() is typed without the filter methods PostgREST allows.
+const selectFollowedNotes = () =>
+  supabase.rpc('get_followed_sermon_notes').select(FEED_NOTE_COLUMNS) as unknown as ReturnType<typeof selectNotes>;
+
+export const isSameFeedQuery = (a: FeedQuery | null, b: FeedQuery) =>
+  a !== null &&
+  a.filter === b.filter &&
+  a.praiseWindow === b.praiseWindow &&
+  a.search === b.search &&
+  a.userId === b.userId &&
+  (Object.keys(b.advanced) as (keyof FeedAdvancedFilters)[])
+    .every(key => a.advanced[key] === b.advanced[key]);
+
+// The filters that are set, as passed to the ranking RPCs
+const getActiveFilters = (advanced: FeedAdvancedFilters) =>
+  Object.fromEntries(Object.entries(advanced).filter(([, value]) => value));
+
+// Weeks start on Sunday, so "This Week" covers the latest Sunday's sermons
+const getPraiseWindowStart = (praiseWindow: PraiseWindow): string | null => {
+  const now = new Date();
+  switch (praiseWindow) {
+    case 'today':
+      return startOfDay(now).toISOString();
+    case 'week':
+      return startOfWeek(now).toISOString();
+    case 'month':
+      return startOfMonth(now).toISOString();
+    default:
+      return null;
+  }
+};
+
+const toFeedNote = (row: FeedNoteRow, userId: string | null): FeedNote => ({
+  ...row,
+  praise_count: row.praise_count?.[0]?.count || 0,
+  comment_count: row.comment_count?.[0]?.count || 0,
+  user_has_praised: row.user_has_praised?.some(praise => praise.user_id === userId) || false
+});
+
+// Ranked feeds get an ordered page of ids from an RPC, then load those notes
+const fetchRankedPage = async (query: FeedQuery, cursor: FeedCursor | null): Promise<FeedPage> => {
+  const offset = cursor?.offset ?? 0;
+  const params = {
+    p_search: query.search || null,
+    p_filters: getActiveFilters(query.advanced),
+    p_limit: PAGE_SIZE + 1,
+    p_offset: offset
+  };
+
+  const { data: ranking, error: rankingError } = query.filter === 'praised'
+    ? await supabase.rpc('get_most_praised_sermon_notes', {
+        ...params,
+        p_since: getPraiseWindowStart(query.praiseWindow)
+      })
+    : await supabase.rpc('get_trending_sermon_notes', params);
+
+  if (rankingError) throw rankingError;
+
+  const rankedIds = ((ranking || []) as { sermon_note_id: string }[])
+    .map(row => row.sermon_note_id);
+  const pageIds = rankedIds.slice(0, PAGE_SIZE);
+
+  if (pageIds.length === 0) {
+    return { notes: [], cursor: null, hasMore: false };
+  }
+
+  const { data, error } = await selectNotes().in('id', pageIds);
+  if (error) throw error;
+
+  const notesById = new Map(
+    ((data || []) as unknown as FeedNoteRow[]).map(row => [row.id, toFeedNote(row, query.userId)])
+  );
+  const notes = pageIds
+    .map(id => notesById.get(id))
+    .filter((note): note is FeedNote => Boolean(note));
+  const lastNote = notes[notes.length - 1];
+
+  return {
+    notes,
+    cursor: lastNote
+      ? { createdAt: lastNote.created_at, id: lastNote.id, offset: offset + pageIds.length }
+      : null,
+    hasMore: rankedIds.length > PAGE_SIZE
+  };
+};
+
+const fetchPage = async (query: FeedQuery, cursor: FeedCursor | null): Promise<FeedPage> => {
+  const { filter, search, advanced, userId } = query;
+
+  if (filter === 'praised' || filter === 'trending') {
+    return fetchRankedPage(query, cursor);
+  }
+
+  let request = (filter === 'following' ? selectFollowedNotes() : selectNotes())
+    .eq('status', 'published')
+    .neq('visibility', 'unlisted')
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE + 1);
+
+  // Row level security limits this to notes the user may see: public ones, their own,
+  // and church-only notes from churches they're an active member of. Unlisted notes are
+  // only reached through their share link.
+  if (filter === 'church') {
+    request = request.eq('visibility', 'church');
+  }
+
+  if (advanced.pastor) {
+    request = request.ilike('pastor_name', `%${advanced.pastor}%`);
+  }
+  if (advanced.church) {
+    request = request.ilike('church_name', `%${advanced.church}%`);
+  }
+  if (advanced.from) {
+    request = request.gte('preached_on', advanced.from);
+  }
+  if (advanced.to) {
+    request = request.lte('preached_on', advanced.to);
+  }
+  if (advanced.book) {
+    request = request.contains('scripture_books', [advanced.book]);
+  }
+  if (advanced.tag) {
+    request = request.contains('tags', [advanced.tag]);
+  }
+
+  // Apply search
+  if (search) {
+    request = request.textSearch('search_vector', search, { type: 'websearch', config: 'english' });
+  }
+
+  if (cursor) {
+    request = request.or(
+      `created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`
+    );
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as FeedNoteRow[];
+  const pageRows = rows.slice(0, PAGE_SIZE);
+  const lastRow = pageRows[pageRows.length - 1];
+
+  return {
+    notes: pageRows.map(row => toFeedNote(row, userId)),
+    cursor: lastRow
+      ? { createdAt: lastRow.created_at, id: lastRow.id, offset: (cursor?.offset ?? 0) + pageRows.length }
+      : null,
+    hasMore: rows.length > PAGE_SIZE
+  };
+};
+
+// Kept in memory only, so the feed can be shown again as it was when navigating back to it
+export const useFeedStore = create<FeedState>()((set, get) => ({
+  notes: [],
+  query: null,
+  cursor: null,
+  hasMore: false,
+  loading: false,
+  loadingMore: false,
+  error: null,
+  scrollY: 0,
+
+  loadFeed: async (query: FeedQuery) => {
+    set({
+      notes: [],
+      query,
+      cursor: null,
+      hasMore: false,
+      loading: true,
+      loadingMore: false,
+      error: null,
+      scrollY: 0
+    });
+
+    try {
+      const page = await fetchPage(query, null);
+
+      // A newer query has started since this one was sent
+      if (get().query !== query) return;
+
+      set({ notes: page.notes, cursor: page.cursor, hasMore: page.hasMore });
+
+      logger.info('loadFeed', 'Loaded first feed page', {
+        filter: query.filter,
+        count: page.notes.length,
+        hasMore: page.hasMore
+      });
+    } catch (error) {
+      if (get().query !== query) return;
+
+      logger.error('loadFeed', 'Failed to load feed', error as Error, {
+        filter: query.filter
+      });
+      set({ error: 'Failed to load sermon notes' });
+      throw error;
+    } finally {
+      if (get().query === query) {
+        set({ loading: false });
+      }
+    }
+  },
+
+  loadMore: async () => {
+    const { query, cursor, hasMore, loading, loadingMore } = get();
+    if (!query || !cursor || !hasMore || loading || loadingMore) return;
+
+    set({ loadingMore: true });
+
+    try {
+      const page = await fetchPage(query, cursor);
+      if (get().query !== query) return;
+
+      set(state => {
+        const loadedIds = new Set(state.notes.map(note => note.id));
+        return {
+          notes: [...state.notes, ...page.notes.filter(note => !loadedIds.has(note.id))],
+          cursor: page.cursor || state.cursor,
+          hasMore: page.hasMore
+        };
+      });
+
+      logger.info('loadMore', 'Loaded next feed page', {
+        filter: query.filter,
+        count: page.notes.length,
+        hasMore: page.hasMore
+      });
+    } catch (error) {
+      logger.error('loadMore', 'Failed to load more notes', error as Error, {
+        filter: query.filter
+      });
+      throw error;
+    } finally {
+      if (get().query === query) {
+        set({ loadingMore: false });
+      }
+    }
+  },
+
+  saveScrollPosition: (scrollY: number) => {
+    set({ scrollY });
+  }
+}));
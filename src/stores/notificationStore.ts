@@ -0,0 +1,179 @@
+import { create } from 'zustand';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { NOTIFICATION_COLUMNS, type AppNotification } from '../utils/notifications';
+
+// How many of the latest notifications the header inbox shows
+export const INBOX_SIZE = 8;
+
+async function fetchNotification(id: string): Promise<AppNotification | null> {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('id', id)
+    .single();
+
+  if (error || !data) return null;
+  return data as unknown as AppNotification;
+}
+
+interface NotificationState {
+  notifications: AppNotification[];
+  unreadCount: number;
+  loading: boolean;
+  loadNotifications: () => Promise<void>;
+  syncUnreadCount: () => Promise<void>;
+  markRead: (ids: string[]) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  subscribeToNotifications: (userId: string) => () => void;
+  clearNotifications: () => void;
+}
+
+export const useNotificationStore = create<NotificationState>()((set, get) => ({
+  notifications: [],
+  unreadCount: 0,
+  loading: false,
+
+  clearNotifications: () => {
+    set({
+      notifications: [],
+      unreadCount: 0,
+      loading: false
+    });
+  },
+
+  subscribeToNotifications: (userId: string) => {
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        async (payload) => {
+          // Digest notifications wait for the email
+          if (payload.new.delivery !== 'in_app') return;
+
+          const notification = await fetchNotification(payload.new.id);
+          if (!notification) return;
+
+          set(state => ({
+            notifications: [
+              notification,
+              ...state.notifications.filter(n => n.id !== notification.id)
+            ].slice(0, INBOX_SIZE),
+            unreadCount: state.unreadCount + 1
+          }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        async (payload) => {
+          // Someone joined an unread batch; move it back to the top
+          if (payload.new.delivery === 'in_app' && !payload.new.read) {
+            const notification = await fetchNotification(payload.new.id);
+
+            if (notification) {
+              set(state => ({
+                notifications: [
+                  notification,
+                  ...state.notifications.filter(n => n.id !== notification.id)
+                ].slice(0, INBOX_SIZE)
+              }));
+            }
+          }
+
+          // Read in another tab
+          await get().syncUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  },
+
+  loadNotifications: async () => {
+    try {
+      set({ loading: true });
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select(NOTIFICATION_COLUMNS)
+        .eq('delivery', 'in_app')
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(INBOX_SIZE);
+
+      if (error) throw error;
+
+      set({ notifications: (data || []) as unknown as AppNotification[] });
+      await get().syncUnreadCount();
+    } catch (error) {
+      logger.error('loadNotifications', 'Failed to load notifications', error as Error);
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  syncUnreadCount: async () => {
+    try {
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('delivery', 'in_app')
+        .eq('read', false);
+
+      if (error) throw error;
+
+      set({ unreadCount: count || 0 });
+    } catch (error) {
+      logger.error('syncUnreadCount', 'Failed to sync unread notification count', error as Error);
+    }
+  },
+
+  markRead: async (ids: string[]) => {
+    const unread = get().notifications.filter(n => ids.includes(n.id) && !n.read).length;
+
+    set(state => ({
+      notifications: state.notifications.map(n => (ids.includes(n.id) ? { ...n, read: true } : n)),
+      unreadCount: Math.max(0, state.unreadCount - unread)
+    }));
+
+    try {
+      const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids });
+      if (error) throw error;
+    } catch (error) {
+      logger.error('markRead', 'Failed to mark notifications as read', error as Error, { ids });
+    } finally {
+      // Notifications outside the inbox may have been among them
+      await get().syncUnreadCount();
+    }
+  },
+
+  markAllRead: async () => {
+    set(state => ({
+      notifications: state.notifications.map(n => ({ ...n, read: true })),
+      unreadCount: 0
+    }));
+
+    try {
+      const { error } = await supabase.rpc('mark_notifications_read', { p_ids: null });
+      if (error) throw error;
+    } catch (error) {
+      logger.error('markAllRead', 'Failed to mark all notifications as read', error as Error);
+      await get().syncUnreadCount();
+      throw error;
+    }
+  }
+}));
@@ -72,8 +72,7 @@ export const usePraiseStore = create<PraiseState>()(
           });
 
           const { data, error } = await supabase.rpc('get_praise_state', {
-            p_note_id: noteId,
-            p_user_id: user.id
+            p_note_id: noteId
           });
 
           if (error) throw error;
@@ -121,8 +120,7 @@ export const usePraiseStore = create<PraiseState>()(
       syncPraiseCount: async (noteId: string) => {
         try {
           const { data, error } = await supabase.rpc('get_praise_state', {
-            p_note_id: noteId,
-            p_user_id: (await supabase.auth.getUser()).data.user?.id
+            p_note_id: noteId
           });
 
           if (error) throw error;
@@ -178,8 +176,7 @@ export const usePraiseStore = create<PraiseState>()(
           }));
 
           const { data, error } = await supabase.rpc('toggle_praise', {
-            p_note_id: noteId,
-            p_user_id: user.id
+            p_note_id: noteId
           });
 
           if (error) throw error;
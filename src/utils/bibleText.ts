@@ -0,0 +1,96 @@
+import { parseScriptureReference, type ScripturePassage } from './scripture';
+
+// Translations bundled under public/bible/<translation>/, one JSON chunk per book
+export type BibleTranslation = 'kjv';
+
+export const DEFAULT_TRANSLATION: BibleTranslation = 'kjv';
+
+export const TRANSLATION_NAMES: Record<BibleTranslation, string> = {
+  kjv: 'King James Version'
+};
+
+interface BookChunk {
+  book: string;
+  chapters: string[][];
+}
+
+export interface VerseText {
+  chapter: number;
+  verse: number;
+  text: string;
+}
+
+export interface PassageText {
+  reference: string;
+  translation: BibleTranslation;
+  verses: VerseText[];
+}
+
+// Each book is fetched at most once per session
+const bookCache = new Map<string, Promise<BookChunk>>();
+
+const loadBook = (translation: BibleTranslation, bookId: string): Promise<BookChunk> => {
+  const cacheKey = `${translation}/${bookId}`;
+  const cached = bookCache.get(cacheKey);
+  if (cached) return cached;
+
+  const request = fetch(`${import.meta.env.BASE_URL}bible/${translation}/${bookId}.json`)
+    .then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load ${bookId} (${response.status})`);
+      }
+      return response.json() as Promise<BookChunk>;
+    });
+
+  // Let a failed request be retried next time
+  request.catch(() => bookCache.delete(cacheKey));
+  bookCache.set(cacheKey, request);
+  return request;
+};
+
+// Verse text for a single passage. Verses past the end of a chapter are skipped.
+export async function getPassageText(
+  passage: ScripturePassage,
+  translation: BibleTranslation = DEFAULT_TRANSLATION
+): Promise<VerseText[]> {
+  const book = await loadBook(translation, passage.book);
+  const verses: VerseText[] = [];
+
+  for (let chapter = passage.chapter; chapter <= passage.endChapter; chapter++) {
+    const chapterVerses = book.chapters[chapter - 1] || [];
+    const firstVerse = chapter === passage.chapter && passage.startVerse !== null
+      ? passage.startVerse
+      : 1;
+    const lastVerse = chapter === passage.endChapter && passage.endVerse !== null
+      ? Math.min(passage.endVerse, chapterVerses.length)
+      : chapterVerses.length;
+
+    for (let verse = firstVerse; verse <= lastVerse; verse++) {
+      verses.push({ chapter, verse, text: chapterVerses[verse - 1] });
+    }
+  }
+
+  return verses;
+}
+
+/**
+ * Resolve a reference such as "John 3:16-18" to its verse text.
+ * Returns null when the reference can't be parsed.
+ */
+export async function getReferenceText(
+  reference: string,
+  translation: BibleTranslation = DEFAULT_TRANSLATION
+): Promise<PassageText | null> {
+  const result = parseScriptureReference(reference);
+  if (!result.ok) return null;
+
+  const passages = await Promise.all(
+    result.reference.passages.map(passage => getPassageText(passage, translation))
+  );
+
+  return {
+    reference: result.reference.display,
+    translation,
+    verses: passages.flat()
+  };
+}
@@ -0,0 +1,41 @@
+// Replies nested deeper than this are reached through a "continue thread" link
+export const MAX_THREAD_DEPTH = 4;
+
+interface ThreadedComment {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+}
+
+const byCreatedAt = (a: ThreadedComment, b: ThreadedComment) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// Comments grouped by the comment they reply to. Top-level comments are under null, newest
+// first; replies read as a conversation, oldest first. A reply whose parent isn't loaded is
+// shown at the top level rather than dropped.
+export function groupCommentReplies<T extends ThreadedComment>(comments: T[]): Map<string | null, T[]> {
+  const ids = new Set(comments.map(comment => comment.id));
+  const replies = new Map<string | null, T[]>();
+
+  comments.forEach(comment => {
+    const parentId = comment.parent_id && ids.has(comment.parent_id) ? comment.parent_id : null;
+    replies.set(parentId, [...(replies.get(parentId) || []), comment]);
+  });
+
+  replies.forEach((group, parentId) => {
+    group.sort(parentId === null ? (a, b) => byCreatedAt(b, a) : byCreatedAt);
+  });
+
+  return replies;
+}
+
+// Number of replies anywhere below a comment
+export function countReplies<T extends ThreadedComment>(
+  replies: Map<string | null, T[]>,
+  commentId: string
+): number {
+  return (replies.get(commentId) || []).reduce(
+    (count, reply) => count + 1 + countReplies(replies, reply.id),
+    0
+  );
+}
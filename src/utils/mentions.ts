@@ -0,0 +1,52 @@
+import { supabase } from '../lib/supabase';
+
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+// "@name" at the start of the text or after a character that can't be part of a word or
+// email address. Matches the pattern used by the sync_comment_mentions trigger.
+export const MENTION_PATTERN = /(^|[^\w@])@(\w+(?:[.-]\w+)*)/g;
+
+// The allowed characters in a username being typed after "@"
+const MENTION_QUERY_PATTERN = /(?:^|[^\w@])@([\w.-]*)$/;
+
+export interface MentionProfile {
+  id: string;
+  username: string;
+  full_name: string;
+  avatar_url: string | null;
+}
+
+// A mention recorded for a comment, linking the name as written to a profile
+export interface CommentMention {
+  mentioned_user_id: string;
+  username: string;
+}
+
+// The "@name" being typed just before the caret, with where its "@" starts
+export function getMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const match = MENTION_QUERY_PATTERN.exec(text.slice(0, caret));
+  if (!match) return null;
+
+  return { query: match[1], start: caret - match[1].length - 1 };
+}
+
+// Profiles whose username or name starts with the query
+export async function searchMentionProfiles(query: string): Promise<MentionProfile[]> {
+  // Only word characters go into the filter string
+  const prefix = query.replace(/[^\w.-]/g, '');
+
+  let request = supabase
+    .from('profiles')
+    .select('id, username, full_name, avatar_url')
+    .order('username')
+    .limit(MAX_MENTION_SUGGESTIONS);
+
+  if (prefix) {
+    request = request.or(`username.ilike.${prefix}%,full_name.ilike.${prefix}%`);
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+
+  return data || [];
+}
@@ -0,0 +1,146 @@
+export const NOTIFICATION_COLUMNS = `
+  id,
+  type,
+  content,
+  read,
+  created_at,
+  actor_count,
+  actor:profiles!notifications_actor_id_fkey (
+    id,
+    username,
+    full_name,
+    avatar_url
+  ),
+  sermon_note:sermon_notes (
+    id,
+    title
+  )
+`;
+
+// Types written by the notification triggers and sync_mentions
+export type NotificationType =
+  | 'praise'
+  | 'comment_praise'
+  | 'comment'
+  | 'reply'
+  | 'new_follower'
+  | 'mention'
+  | 'membership_approved'
+  | 'membership_rejected';
+
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  content: {
+    comment_id?: string | null;
+    church_id?: string;
+    church_name?: string;
+  };
+  read: boolean;
+  created_at: string;
+  // Batched notifications count everyone involved; `actor` is the most recent
+  actor_count: number;
+  actor: {
+    id: string;
+    username: string;
+    full_name: string;
+    avatar_url: string | null;
+  } | null;
+  // Null once the note is deleted or no longer visible to the reader
+  sermon_note: {
+    id: string;
+    title: string;
+  } | null;
+}
+
+export type NotificationDelivery = 'off' | 'in_app' | 'digest';
+
+export type NotificationCategory = 'praise' | 'comment' | 'reply' | 'mention' | 'follow' | 'church';
+
+export type NotificationPreferences = Record<NotificationCategory, NotificationDelivery>;
+
+// One column each in notification_preferences
+export const NOTIFICATION_CATEGORIES: {
+  key: NotificationCategory;
+  label: string;
+  description: string;
+}[] = [
+  { key: 'praise', label: 'Praise', description: 'Someone praises your sermon note or comment' },
+  { key: 'comment', label: 'Comments', description: 'Someone comments on your sermon note' },
+  { key: 'reply', label: 'Replies', description: 'Someone replies to your comment' },
+  { key: 'mention', label: 'Mentions', description: 'Someone mentions you in a note or comment' },
+  { key: 'follow', label: 'New followers', description: 'Someone starts following you' },
+  { key: 'church', label: 'Church', description: 'A church decides on your request to join' }
+];
+
+export const NOTIFICATION_DELIVERY_OPTIONS: { value: NotificationDelivery; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  { value: 'in_app', label: 'In-app' },
+  { value: 'digest', label: 'Digest' }
+];
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  praise: 'in_app',
+  comment: 'in_app',
+  reply: 'in_app',
+  mention: 'in_app',
+  follow: 'in_app',
+  church: 'in_app'
+};
+
+// "and 11 others", following the actor's name on a batched notification
+export function getOtherActorsLabel(notification: AppNotification): string | null {
+  const others = notification.actor_count - 1;
+  if (others < 1) return null;
+
+  return others === 1 ? 'and 1 other' : `and ${others} others`;
+}
+
+// What happened, worded to follow the actor's name
+export function getNotificationMessage(notification: AppNotification): string {
+  const title = notification.sermon_note ? `"${notification.sermon_note.title}"` : 'a sermon note';
+  const churchName = notification.content.church_name || 'the church';
+
+  switch (notification.type) {
+    case 'praise':
+      return `praised your sermon note ${title}`;
+    case 'comment_praise':
+      return `praised your comment on ${title}`;
+    case 'comment':
+      return `commented on your sermon note ${title}`;
+    case 'reply':
+      return `replied to your comment on ${title}`;
+    case 'new_follower':
+      return 'started following you';
+    case 'mention':
+      return notification.content.comment_id
+        ? `mentioned you in a comment on ${title}`
+        : `mentioned you in ${title}`;
+    case 'membership_approved':
+      return `Your request to join ${churchName} was approved`;
+    case 'membership_rejected':
+      return `Your request to join ${churchName} was declined`;
+    default:
+      return 'sent you a notification';
+  }
+}
+
+// Membership decisions come from the church rather than a person
+export function isChurchNotification(notification: AppNotification): boolean {
+  return notification.type === 'membership_approved' || notification.type === 'membership_rejected';
+}
+
+export function getNotificationPath(notification: AppNotification): string | null {
+  if (isChurchNotification(notification)) {
+    return notification.content.church_id ? `/church/${notification.content.church_id}` : null;
+  }
+
+  if (notification.type === 'new_follower') {
+    return notification.actor ? `/profile/${notification.actor.id}` : null;
+  }
+
+  if (!notification.sermon_note) return null;
+
+  const path = `/sermon-notes/${notification.sermon_note.id}`;
+  return notification.content.comment_id ? `${path}#comments` : path;
+}
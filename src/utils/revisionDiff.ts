@@ -0,0 +1,76 @@
+import type { JSONContent } from '@tiptap/react';
+
+export type BlockChange = 'added' | 'removed' | 'unchanged';
+
+export interface BlockDiff {
+  change: BlockChange;
+  block: JSONContent;
+}
+
+// Plain text of a block and everything nested inside it
+export function getBlockPlainText(block: JSONContent): string {
+  if (block.text) return block.text;
+  if (block.type === 'scriptureRef') return block.attrs?.reference || '';
+  if (block.type === 'mention') return `@${block.attrs?.label || ''}`;
+  if (!block.content) return '';
+
+  const separator = block.type === 'bulletList' || block.type === 'orderedList' ? '\n' : '';
+  return block.content.map(getBlockPlainText).join(separator);
+}
+
+/**
+ * Diff two TipTap documents at the level of their top-level blocks.
+ * Blocks are compared by their full JSON, so a formatting change shows
+ * up as the old block removed and the new block added.
+ */
+export function diffDocumentBlocks(
+  before: JSONContent | null | undefined,
+  after: JSONContent | null | undefined
+): BlockDiff[] {
+  const oldBlocks = before?.content || [];
+  const newBlocks = after?.content || [];
+  const oldKeys = oldBlocks.map(block => JSON.stringify(block));
+  const newKeys = newBlocks.map(block => JSON.stringify(block));
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from(
+    { length: oldKeys.length + 1 },
+    () => new Array<number>(newKeys.length + 1).fill(0)
+  );
+
+  for (let i = oldKeys.length - 1; i >= 0; i--) {
+    for (let j = newKeys.length - 1; j >= 0; j--) {
+      lcs[i][j] = oldKeys[i] === newKeys[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: BlockDiff[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < oldKeys.length && j < newKeys.length) {
+    if (oldKeys[i] === newKeys[j]) {
+      diff.push({ change: 'unchanged', block: newBlocks[j] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ change: 'removed', block: oldBlocks[i] });
+      i++;
+    } else {
+      diff.push({ change: 'added', block: newBlocks[j] });
+      j++;
+    }
+  }
+
+  while (i < oldKeys.length) {
+    diff.push({ change: 'removed', block: oldBlocks[i++] });
+  }
+
+  while (j < newKeys.length) {
+    diff.push({ change: 'added', block: newBlocks[j++] });
+  }
+
+  return diff;
+}
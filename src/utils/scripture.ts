@@ -0,0 +1,402 @@
+export interface BibleBook {
+  id: string;
+  name: string;
+  chapters: number;
+  abbreviations: string[];
+}
+
+// A contiguous passage within one book. Whole chapters have null verses.
+export interface ScripturePassage {
+  book: string;
+  chapter: number;
+  startVerse: number | null;
+  endChapter: number;
+  endVerse: number | null;
+}
+
+export interface ScriptureReference {
+  book: BibleBook;
+  passages: ScripturePassage[];
+  display: string;
+  keys: string[];
+}
+
+export type ScriptureParseResult =
+  | { ok: true; reference: ScriptureReference }
+  | { ok: false; error: string };
+
+// Book ids follow the USFM codes
+export const BIBLE_BOOKS: BibleBook[] = [
+  { id: 'GEN', name: 'Genesis', chapters: 50, abbreviations: ['gen', 'ge', 'gn'] },
+  { id: 'EXO', name: 'Exodus', chapters: 40, abbreviations: ['exod', 'exo', 'ex'] },
+  { id: 'LEV', name: 'Leviticus', chapters: 27, abbreviations: ['lev', 'le', 'lv'] },
+  { id: 'NUM', name: 'Numbers', chapters: 36, abbreviations: ['num', 'nu', 'nm', 'nb'] },
+  { id: 'DEU', name: 'Deuteronomy', chapters: 34, abbreviations: ['deut', 'deu', 'de', 'dt'] },
+  { id: 'JOS', name: 'Joshua', chapters: 24, abbreviations: ['josh', 'jos', 'jsh'] },
+  { id: 'JDG', name: 'Judges', chapters: 21, abbreviations: ['judg', 'jdg', 'jg', 'jdgs'] },
+  { id: 'RUT', name: 'Ruth', chapters: 4, abbreviations: ['rut', 'ru', 'rth'] },
+  { id: '1SA', name: '1 Samuel', chapters: 31, abbreviations: ['1sam', '1sa', '1sm', '1s'] },
+  { id: '2SA', name: '2 Samuel', chapters: 24, abbreviations: ['2sam', '2sa', '2sm', '2s'] },
+  { id: '1KI', name: '1 Kings', chapters: 22, abbreviations: ['1kgs', '1ki', '1kg', '1k'] },
+  { id: '2KI', name: '2 Kings', chapters: 25, abbreviations: ['2kgs', '2ki', '2kg', '2k'] },
+  { id: '1CH', name: '1 Chronicles', chapters: 29, abbreviations: ['1chron', '1chr', '1ch'] },
+  { id: '2CH', name: '2 Chronicles', chapters: 36, abbreviations: ['2chron', '2chr', '2ch'] },
+  { id: 'EZR', name: 'Ezra', chapters: 10, abbreviations: ['ezr', 'ez'] },
+  { id: 'NEH', name: 'Nehemiah', chapters: 13, abbreviations: ['neh', 'ne'] },
+  { id: 'EST', name: 'Esther', chapters: 10, abbreviations: ['esth', 'est', 'es'] },
+  { id: 'JOB', name: 'Job', chapters: 42, abbreviations: ['jb'] },
+  { id: 'PSA', name: 'Psalms', chapters: 150, abbreviations: ['psalm', 'pss', 'psa', 'psm', 'ps'] },
+  { id: 'PRO', name: 'Proverbs', chapters: 31, abbreviations: ['prov', 'pro', 'prv', 'pr'] },
+  { id: 'ECC', name: 'Ecclesiastes', chapters: 12, abbreviations: ['eccles', 'eccl', 'ecc', 'ec', 'qoh'] },
+  { id: 'SNG', name: 'Song of Solomon', chapters: 8, abbreviations: ['songofsongs', 'song', 'sos', 'sng', 'ss', 'canticles'] },
+  { id: 'ISA', name: 'Isaiah', chapters: 66, abbreviations: ['isa', 'is'] },
+  { id: 'JER', name: 'Jeremiah', chapters: 52, abbreviations: ['jer', 'je', 'jr'] },
+  { id: 'LAM', name: 'Lamentations', chapters: 5, abbreviations: ['lam', 'la'] },
+  { id: 'EZK', name: 'Ezekiel', chapters: 48, abbreviations: ['ezek', 'eze', 'ezk'] },
+  { id: 'DAN', name: 'Daniel', chapters: 12, abbreviations: ['dan', 'da', 'dn'] },
+  { id: 'HOS', name: 'Hosea', chapters: 14, abbreviations: ['hos', 'ho'] },
+  { id: 'JOL', name: 'Joel', chapters: 3, abbreviations: ['joe', 'jl'] },
+  { id: 'AMO', name: 'Amos', chapters: 9, abbreviations: ['amo', 'am'] },
+  { id: 'OBA', name: 'Obadiah', chapters: 1, abbreviations: ['obad', 'oba', 'ob'] },
+  { id: 'JON', name: 'Jonah', chapters: 4, abbreviations: ['jon', 'jnh'] },
+  { id: 'MIC', name: 'Micah', chapters: 7, abbreviations: ['mic', 'mc'] },
+  { id: 'NAM', name: 'Nahum', chapters: 3, abbreviations: ['nah', 'nam', 'na'] },
+  { id: 'HAB', name: 'Habakkuk', chapters: 3, abbreviations: ['hab', 'hb'] },
+  { id: 'ZEP', name: 'Zephaniah', chapters: 3, abbreviations: ['zeph', 'zep', 'zp'] },
+  { id: 'HAG', name: 'Haggai', chapters: 2, abbreviations: ['hag', 'hg'] },
+  { id: 'ZEC', name: 'Zechariah', chapters: 14, abbreviations: ['zech', 'zec', 'zc'] },
+  { id: 'MAL', name: 'Malachi', chapters: 4, abbreviations: ['mal', 'ml'] },
+  { id: 'MAT', name: 'Matthew', chapters: 28, abbreviations: ['matt', 'mat', 'mt'] },
+  { id: 'MRK', name: 'Mark', chapters: 16, abbreviations: ['mrk', 'mar', 'mk', 'mr'] },
+  { id: 'LUK', name: 'Luke', chapters: 24, abbreviations: ['luk', 'lk'] },
+  { id: 'JHN', name: 'John', chapters: 21, abbreviations: ['jhn', 'joh', 'jn'] },
+  { id: 'ACT', name: 'Acts', chapters: 28, abbreviations: ['act', 'ac'] },
+  { id: 'ROM', name: 'Romans', chapters: 16, abbreviations: ['rom', 'ro', 'rm'] },
+  { id: '1CO', name: '1 Corinthians', chapters: 16, abbreviations: ['1cor', '1co'] },
+  { id: '2CO', name: '2 Corinthians', chapters: 13, abbreviations: ['2cor', '2co'] },
+  { id: 'GAL', name: 'Galatians', chapters: 6, abbreviations: ['gal', 'ga'] },
+  { id: 'EPH', name: 'Ephesians', chapters: 6, abbreviations: ['eph', 'ephes'] },
+  { id: 'PHP', name: 'Philippians', chapters: 4, abbreviations: ['phil', 'php'] },
+  { id: 'COL', name: 'Colossians', chapters: 4, abbreviations: ['col', 'co'] },
+  { id: '1TH', name: '1 Thessalonians', chapters: 5, abbreviations: ['1thess', '1thes', '1th'] },
+  { id: '2TH', name: '2 Thessalonians', chapters: 3, abbreviations: ['2thess', '2thes', '2th'] },
+  { id: '1TI', name: '1 Timothy', chapters: 6, abbreviations: ['1tim', '1ti', '1tm'] },
+  { id: '2TI', name: '2 Timothy', chapters: 4, abbreviations: ['2tim', '2ti', '2tm'] },
+  { id: 'TIT', name: 'Titus', chapters: 3, abbreviations: ['tit', 'ti'] },
+  { id: 'PHM', name: 'Philemon', chapters: 1, abbreviations: ['philem', 'phm', 'pm'] },
+  { id: 'HEB', name: 'Hebrews', chapters: 13, abbreviations: ['heb'] },
+  { id: 'JAS', name: 'James', chapters: 5, abbreviations: ['jas', 'jm'] },
+  { id: '1PE', name: '1 Peter', chapters: 5, abbreviations: ['1pet', '1pe', '1pt', '1p'] },
+  { id: '2PE', name: '2 Peter', chapters: 3, abbreviations: ['2pet', '2pe', '2pt', '2p'] },
+  { id: '1JN', name: '1 John', chapters: 5, abbreviations: ['1john', '1jhn', '1jn', '1jo', '1j'] },
+  { id: '2JN', name: '2 John', chapters: 1, abbreviations: ['2john', '2jhn', '2jn', '2jo', '2j'] },
+  { id: '3JN', name: '3 John', chapters: 1, abbreviations: ['3john', '3jhn', '3jn', '3jo', '3j'] },
+  { id: 'JUD', name: 'Jude', chapters: 1, abbreviations: ['jud', 'jd'] },
+  { id: 'REV', name: 'Revelation', chapters: 22, abbreviations: ['revelations', 'rev', 're', 'rv', 'apocalypse'] }
+];
+
+const ROMAN_NUMERALS: Record<string, string> = { i: '1', ii: '2', iii: '3' };
+const ORDINAL_WORDS: Record<string, string> = { first: '1', second: '2', third: '3' };
+
+const normalizeBookName = (name: string) => name.toLowerCase().replace(/[\s.]/g, '');
+
+// Every full name and abbreviation, normalized to lowercase without spaces or periods
+const BOOK_ALIASES = new Map<string, BibleBook>(
+  BIBLE_BOOKS.flatMap(book => [
+    [normalizeBookName(book.name), book] as const,
+    ...book.abbreviations.map(abbreviation => [abbreviation, book] as const)
+  ])
+);
+
+const BOOKS_BY_ID = new Map(BIBLE_BOOKS.map(book => [book.id, book]));
+
+export function getBibleBook(id: string): BibleBook | undefined {
+  return BOOKS_BY_ID.get(id);
+}
+
+// Match a book by alias, or by an unambiguous prefix of its full name
+export function findBibleBook(name: string): BibleBook | null {
+  let normalized = normalizeBookName(
+    name.trim().replace(/^(i{1,3}|first|second|third)\s+/i, (prefix) => {
+      const word = prefix.trim().toLowerCase();
+      return ROMAN_NUMERALS[word] || ORDINAL_WORDS[word] || prefix;
+    })
+  );
+  normalized = normalized.replace(/^([123])(st|nd|rd)/, '$1');
+
+  if (!normalized) return null;
+
+  const alias = BOOK_ALIASES.get(normalized);
+  if (alias) return alias;
+
+  if (normalized.replace(/^[123]/, '').length < 2) return null;
+
+  const matches = BIBLE_BOOKS.filter(book =>
+    normalizeBookName(book.name).startsWith(normalized)
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// Split "1 Jn3.16" into the book name and everything after it
+const splitReference = (input: string): { bookName: string; rest: string } => {
+  const match = input.match(/^\s*((?:[123](?:st|nd|rd)?|i{1,3}|first|second|third)?\s*[a-z][a-z\s.]*?)\s*(\d.*)?$/i);
+  if (!match) return { bookName: input.trim(), rest: '' };
+  return { bookName: match[1].trim(), rest: (match[2] || '').trim() };
+};
+
+const parsePassages = (
+  book: BibleBook,
+  rest: string
+): { passages: ScripturePassage[] } | { error: string } => {
+  const isSingleChapterBook = book.chapters === 1;
+
+  const spec = rest
+    .replace(/[\u2012-\u2015]/g, '-')
+    .replace(/\s*(?:to|through)\s*/gi, '-')
+    .replace(/\bvv?\.?\s*/gi, '')
+    // "3 16" and "3.16" both mean chapter 3, verse 16
+    .replace(/^(\d+)(?:\s+|\.)(\d+)/, '$1:$2')
+    .replace(/(\d+)\.(\d+)/g, '$1:$2')
+    .replace(/\s+/g, '');
+
+  if (!spec) {
+    return isSingleChapterBook
+      ? { passages: [{ book: book.id, chapter: 1, startVerse: null, endChapter: 1, endVerse: null }] }
+      : { error: `Add a chapter, e.g. ${book.name} 1` };
+  }
+
+  if (!/^[\d:\-,;]+$/.test(spec)) {
+    return { error: 'Use the form Book Chapter:Verse, e.g. John 3:16-18' };
+  }
+
+  const passages: ScripturePassage[] = [];
+  // After a verse, a bare number is another verse in the same chapter
+  let currentChapter: number | null = isSingleChapterBook ? 1 : null;
+  let inVerses = isSingleChapterBook;
+
+  for (const segment of spec.split(/([,;])/)) {
+    if (segment === ',') continue;
+    if (segment === ';') {
+      // Semicolons start a new chapter reference
+      if (!isSingleChapterBook) inVerses = false;
+      continue;
+    }
+
+    const match = segment.match(/^(?:(\d+):)?(\d+)(?:-(?:(\d+):)?(\d+))?$/);
+    if (!match) {
+      return { error: `"${segment || rest}" isn't a valid chapter or verse` };
+    }
+
+    const [, startChapterText, startText, endChapterText, endText] = match;
+    let passage: ScripturePassage;
+
+    if (startChapterText) {
+      const chapter = Number(startChapterText);
+      const startVerse = Number(startText);
+      const endChapter = endChapterText ? Number(endChapterText) : chapter;
+      const endVerse = endText ? Number(endText) : startVerse;
+      passage = { book: book.id, chapter, startVerse, endChapter, endVerse };
+    } else if (inVerses && currentChapter !== null) {
+      const startVerse = Number(startText);
+      const endChapter = endChapterText ? Number(endChapterText) : currentChapter;
+      const endVerse = endText ? Number(endText) : startVerse;
+      passage = { book: book.id, chapter: currentChapter, startVerse, endChapter, endVerse };
+    } else if (endChapterText) {
+      // "3-4:2" runs from the start of chapter 3
+      passage = {
+        book: book.id,
+        chapter: Number(startText),
+        startVerse: 1,
+        endChapter: Number(endChapterText),
+        endVerse: Number(endText)
+      };
+    } else {
+      const chapter = Number(startText);
+      const endChapter = endText ? Number(endText) : chapter;
+      passage = { book: book.id, chapter, startVerse: null, endChapter, endVerse: null };
+    }
+
+    if (passage.chapter < 1 || passage.endChapter > book.chapters || passage.endChapter < 1) {
+      return {
+        error: book.chapters === 1
+          ? `${book.name} has only one chapter`
+          : `${book.name} has ${book.chapters} chapters`
+      };
+    }
+
+    if (passage.startVerse !== null && (passage.startVerse < 1 || (passage.endVerse ?? 0) < 1)) {
+      return { error: 'Verse numbers start at 1' };
+    }
+
+    if (
+      passage.endChapter < passage.chapter ||
+      (passage.endChapter === passage.chapter &&
+        passage.startVerse !== null &&
+        (passage.endVerse ?? 0) < passage.startVerse)
+    ) {
+      return { error: `"${segment}" ends before it starts` };
+    }
+
+    passages.push(passage);
+    currentChapter = passage.endChapter;
+    inVerses = passage.startVerse !== null;
+  }
+
+  if (passages.length === 0) {
+    return { error: `Add a chapter, e.g. ${book.name} 1` };
+  }
+
+  return { passages };
+};
+
+/**
+ * Normalized key for a passage, e.g. "JHN.3.16-JHN.3.18" or "PSA.23".
+ * Keys are stored in sermon_notes.scripture_keys for search and grouping.
+ */
+export function getPassageKey(passage: ScripturePassage): string {
+  const start = passage.startVerse === null
+    ? `${passage.book}.${passage.chapter}`
+    : `${passage.book}.${passage.chapter}.${passage.startVerse}`;
+  const end = passage.endVerse === null
+    ? `${passage.book}.${passage.endChapter}`
+    : `${passage.book}.${passage.endChapter}.${passage.endVerse}`;
+
+  return start === end ? start : `${start}-${end}`;
+}
+
+// Canonical display string, e.g. "John 3:16-18, 20" or "Psalm 23"
+export function formatScriptureReference(book: BibleBook, passages: ScripturePassage[]): string {
+  const isSingleChapter = passages.every(passage =>
+    passage.chapter === passages[0].chapter && passage.endChapter === passage.chapter
+  );
+  const bookName = book.id === 'PSA' && isSingleChapter ? 'Psalm' : book.name;
+
+  let previousChapter: number | null = null;
+  const parts = passages.map((passage, index) => {
+    // Commas continue the verses of the previous chapter; semicolons start a new reference
+    const separator = index === 0
+      ? ''
+      : passage.startVerse !== null && passage.chapter === previousChapter
+      ? ', '
+      : '; ';
+    let text: string;
+
+    if (passage.startVerse === null || passage.endVerse === null) {
+      text = passage.endChapter === passage.chapter
+        ? `${passage.chapter}`
+        : `${passage.chapter}-${passage.endChapter}`;
+    } else {
+      const start = book.chapters === 1 || passage.chapter === previousChapter
+        ? `${passage.startVerse}`
+        : `${passage.chapter}:${passage.startVerse}`;
+      const end = passage.endChapter !== passage.chapter
+        ? `-${passage.endChapter}:${passage.endVerse}`
+        : passage.endVerse !== passage.startVerse
+        ? `-${passage.endVerse}`
+        : '';
+      text = start + end;
+    }
+
+    previousChapter = passage.startVerse === null ? null : passage.endChapter;
+    return separator + text;
+  });
+
+  return `${bookName} ${parts.join('')}`;
+}
+
+/**
+ * Parse free-text references such as "jn 3 16", "John 3:16-18", "Jn3.16",
+ * "Ps 23; 24:1-3" or "1 Cor 13:4-7, 13" into a canonical form.
+ */
+export function parseScriptureReference(input: string): ScriptureParseResult {
+  if (!input.trim()) {
+    return { ok: false, error: 'Enter a scripture reference' };
+  }
+
+  const { bookName, rest } = splitReference(input);
+  const book = findBibleBook(bookName);
+
+  if (!book) {
+    return { ok: false, error: `"${bookName}" isn't a book of the Bible` };
+  }
+
+  const result = parsePassages(book, rest);
+  if ('error' in result) {
+    return { ok: false, error: result.error };
+  }
+
+  return {
+    ok: true,
+    reference: {
+      book,
+      passages: result.passages,
+      display: formatScriptureReference(book, result.passages),
+      keys: result.passages.map(getPassageKey)
+    }
+  };
+}
+
+// Column values for the verses entered on a note. Unparseable entries are kept as typed
+// so drafts don't lose anything, but they contribute no keys. Duplicates are dropped.
+export function getScriptureColumns(verses: string[]): {
+  scripture_references: string[];
+  scripture_keys: string[];
+} {
+  const references: string[] = [];
+  const keys: string[] = [];
+
+  verses
+    .filter(verse => verse.trim())
+    .forEach(verse => {
+      const result = parseScriptureReference(verse);
+      const display = result.ok ? result.reference.display : verse.trim();
+      if (references.includes(display)) return;
+
+      references.push(display);
+      if (result.ok) {
+        keys.push(...result.reference.keys.filter(key => !keys.includes(key)));
+      }
+    });
+
+  return { scripture_references: references, scripture_keys: keys };
+}
+
+// Reverse of getPassageKey
+export function parsePassageKey(key: string): ScripturePassage | null {
+  const match = key.match(/^([1-3A-Z]{3})\.(\d+)(?:\.(\d+))?(?:-([1-3A-Z]{3})\.(\d+)(?:\.(\d+))?)?$/);
+  if (!match || !BOOKS_BY_ID.has(match[1])) return null;
+
+  const [, book, chapter, startVerse, , endChapter, endVerse] = match;
+  return {
+    book,
+    chapter: Number(chapter),
+    startVerse: startVerse ? Number(startVerse) : null,
+    endChapter: Number(endChapter || chapter),
+    endVerse: endVerse ? Number(endVerse) : startVerse && !endChapter ? Number(startVerse) : null
+  };
+}
+
+/**
+ * Verse ids match sermon_note_passages.verses: book position * 1000000 +
+ * chapter * 1000 + verse. Whole chapters run from verse 0 to 999.
+ */
+export function getVerseRange(
+  bookId: string,
+  chapter: number,
+  startVerse: number | null = null,
+  endVerse: number | null = startVerse
+): string {
+  const position = BIBLE_BOOKS.findIndex(book => book.id === bookId) + 1;
+  const base = position * 1000000 + chapter * 1000;
+  return `[${base + (startVerse ?? 0)},${base + (endVerse ?? 999)}]`;
+}
+
+// Link to the scripture index page for a chapter, optionally narrowed to verses
+export function getScripturePath(passage: ScripturePassage): string {
+  const path = `/scripture/${passage.book}/${passage.chapter}`;
+  if (passage.startVerse === null || passage.endChapter !== passage.chapter) return path;
+
+  return passage.endVerse && passage.endVerse !== passage.startVerse
+    ? `${path}?verses=${passage.startVerse}-${passage.endVerse}`
+    : `${path}?verses=${passage.startVerse}`;
+}
@@ -0,0 +1,188 @@
+import type { JSONContent } from '@tiptap/react';
+import { format, parseISO } from 'date-fns';
+
+export type SermonNoteVisibility = 'public' | 'church' | 'private' | 'unlisted';
+
+export interface SermonNoteFields {
+  title: string;
+  pastorName: string;
+  churchId: string | null;
+  churchName: string;
+  preachedOn: string;
+  service: string;
+  bibleVerses: string[];
+  tags: string[];
+  visibility: SermonNoteVisibility;
+}
+
+// Sermon metadata as stored in the sermon_notes columns
+export interface SermonNoteMetadata {
+  pastor_name: string | null;
+  church_id: string | null;
+  church_name: string | null;
+  preached_on: string | null;
+  service: string | null;
+  tags: string[];
+  visibility: SermonNoteVisibility;
+}
+
+export const emptySermonNoteFields: SermonNoteFields = {
+  title: '',
+  pastorName: '',
+  churchId: null,
+  churchName: '',
+  preachedOn: '',
+  service: '',
+  bibleVerses: [''],
+  tags: [],
+  visibility: 'public'
+};
+
+const getBlockText = (block: JSONContent | undefined): string =>
+  block?.content?.map(child => child.text || '').join('') || '';
+
+const isHeading = (block: JSONContent | undefined, level: number, text?: string) =>
+  block?.type === 'heading' &&
+  block.attrs?.level === level &&
+  (text === undefined || getBlockText(block) === text);
+
+// Build the stored document: title and scripture blocks followed by the editor body
+export function formatSermonContent(fields: SermonNoteFields, body: JSONContent): JSONContent {
+  return {
+    type: 'doc',
+    content: [
+      {
+        type: 'heading',
+        attrs: { level: 1 },
+        content: [{ type: 'text', text: fields.title }]
+      },
+      {
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [{ type: 'text', text: 'Scripture References' }]
+      },
+      {
+        type: 'bulletList',
+        content: fields.bibleVerses
+          .filter(verse => verse.trim())
+          .map(verse => ({
+            type: 'listItem',
+            content: [{
+              type: 'paragraph',
+              content: [{ type: 'text', text: verse }]
+            }]
+          }))
+      },
+      {
+        type: 'heading',
+        attrs: { level: 2 },
+        content: [{ type: 'text', text: 'Notes' }]
+      },
+      ...(body.content || [])
+    ]
+  };
+}
+
+// Reverse of formatSermonContent: split a stored document back into form fields and editor body.
+// Older documents and local drafts still carry `Pastor:` / `Church:` paragraphs, which are read into the fields.
+export function parseSermonContent(content: JSONContent | null | undefined): {
+  fields: SermonNoteFields;
+  body: JSONContent;
+} {
+  const fields: SermonNoteFields = { ...emptySermonNoteFields, bibleVerses: [] };
+  const blocks = [...(content?.content || [])];
+
+  if (isHeading(blocks[0], 1)) {
+    fields.title = getBlockText(blocks.shift());
+  }
+
+  while (blocks[0]?.type === 'paragraph') {
+    const text = getBlockText(blocks[0]);
+    if (text.startsWith('Pastor:')) {
+      fields.pastorName = text.replace('Pastor:', '').trim();
+    } else if (text.startsWith('Church:')) {
+      fields.churchName = text.replace('Church:', '').trim();
+    } else {
+      break;
+    }
+    blocks.shift();
+  }
+
+  if (isHeading(blocks[0], 2, 'Scripture References')) {
+    blocks.shift();
+    if (blocks[0]?.type === 'bulletList') {
+      fields.bibleVerses = (blocks.shift()?.content || [])
+        .map(item => getBlockText(item.content?.[0]).trim())
+        .filter(Boolean);
+    }
+  }
+
+  if (isHeading(blocks[0], 2, 'Notes')) {
+    blocks.shift();
+  }
+
+  if (fields.bibleVerses.length === 0) {
+    fields.bibleVerses = [''];
+  }
+
+  return {
+    fields,
+    body: { type: 'doc', content: blocks.length > 0 ? blocks : [{ type: 'paragraph' }] }
+  };
+}
+
+// Scripture references linked in the editor body, in document order
+export function getBodyScriptureReferences(body: JSONContent): string[] {
+  const references: string[] = [];
+
+  const visit = (node: JSONContent) => {
+    if (node.type === 'scriptureRef' && node.attrs?.reference) {
+      references.push(node.attrs.reference);
+    }
+    node.content?.forEach(visit);
+  };
+
+  visit(body);
+  return references;
+}
+
+// Form fields for a stored note, with the metadata columns taking precedence over the document
+export function getSermonNoteFields(
+  content: JSONContent | null | undefined,
+  metadata: Partial<SermonNoteMetadata>
+): { fields: SermonNoteFields; body: JSONContent } {
+  const { fields, body } = parseSermonContent(content);
+
+  return {
+    fields: {
+      ...fields,
+      pastorName: metadata.pastor_name ?? fields.pastorName,
+      churchId: metadata.church_id ?? null,
+      churchName: metadata.church_name ?? fields.churchName,
+      preachedOn: metadata.preached_on ?? '',
+      service: metadata.service ?? '',
+      tags: metadata.tags ?? [],
+      visibility: metadata.visibility ?? 'public'
+    },
+    body
+  };
+}
+
+// Column values for saving form fields to sermon_notes
+export function getSermonNoteColumns(fields: SermonNoteFields): SermonNoteMetadata {
+  return {
+    pastor_name: fields.pastorName.trim() || null,
+    church_id: fields.churchId,
+    church_name: fields.churchName.trim() || null,
+    preached_on: fields.preachedOn || null,
+    service: fields.service.trim() || null,
+    tags: fields.tags,
+    // Church-only notes need a linked church for membership to be checked against
+    visibility: fields.visibility === 'church' && !fields.churchId ? 'private' : fields.visibility
+  };
+}
+
+// preached_on is a calendar date, so parse it as local time rather than UTC
+export function formatPreachedOn(preachedOn: string): string {
+  return format(parseISO(preachedOn), 'MMM d, yyyy');
+}
@@ -0,0 +1,18 @@
+// Limits match the normalize_sermon_note_tags trigger
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// "#Grace  Alone " -> "grace alone"
+export function normalizeTag(input: string): string {
+  return input
+    .trim()
+    .replace(/^#+/, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+export function getTagPath(tag: string): string {
+  return `/tags/${encodeURIComponent(tag)}`;
+}
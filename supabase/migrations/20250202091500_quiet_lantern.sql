@@ -0,0 +1,88 @@
+/*
+  # Add Draft Support to Sermon Notes
+
+  1. Changes
+    - Add `status` column to sermon_notes ('draft' or 'published')
+    - Existing notes are treated as published
+    - Add index for loading an author's notes by status
+    - Only log church activity once a note is published
+
+  2. Security
+    - Drafts are only visible to their author
+    - Authors can delete their own sermon notes (used to discard drafts)
+*/
+
+-- Add status column to sermon_notes if it doesn't exist
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sermon_notes' AND column_name = 'status'
+  ) THEN
+    ALTER TABLE sermon_notes
+    ADD COLUMN status text NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS sermon_notes_author_status_idx
+  ON sermon_notes (author_id, status, updated_at DESC);
+
+-- Replace the select policy so drafts stay private to their author
+DROP POLICY IF EXISTS "Users can view public and their own sermon notes" ON sermon_notes;
+
+CREATE POLICY "Users can view public and their own sermon notes"
+  ON sermon_notes FOR SELECT
+  USING (
+    author_id = auth.uid() OR
+    (status = 'published' AND (
+      visibility = 'public' OR
+      (visibility = 'church' AND EXISTS (
+        SELECT 1 FROM memberships
+        WHERE user_id = auth.uid()
+        AND church_id = sermon_notes.church_id
+        AND status = 'active'
+      ))
+    ))
+  );
+
+DROP POLICY IF EXISTS "Users can delete own sermon notes" ON sermon_notes;
+
+CREATE POLICY "Users can delete own sermon notes"
+  ON sermon_notes FOR DELETE
+  USING (auth.uid() = author_id);
+
+-- Log church activity when a note is published rather than when a draft is created
+CREATE OR REPLACE FUNCTION log_sermon_note_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.church_id IS NOT NULL
+    AND NEW.status = 'published'
+    AND (TG_OP = 'INSERT' OR OLD.status = 'draft')
+  THEN
+    PERFORM log_church_activity(
+      NEW.church_id,
+      'new_note',
+      jsonb_build_object(
+        'note_id', NEW.id,
+        'author_id', NEW.author_id,
+        'message', format(
+          'New sermon note added: %s',
+          NEW.title
+        )
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_sermon_note_changes_trigger ON sermon_notes;
+CREATE TRIGGER log_sermon_note_changes_trigger
+  AFTER INSERT OR UPDATE OF status ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION log_sermon_note_changes();
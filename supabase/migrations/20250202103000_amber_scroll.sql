@@ -0,0 +1,214 @@
+/*
+  # Add Sermon Note Revision History
+
+  1. New Tables
+    - `sermon_note_revisions`
+      - `id` (uuid, primary key)
+      - `sermon_note_id` (uuid, references sermon_notes)
+      - `revision_number` (integer, increasing per note)
+      - `saved_by` (uuid, the signed-in user who made the write, null for direct database writes)
+      - `saved_by_role` (text, the API role or database user that made the write)
+      - `title`, `content`, `scripture_references`, `status` (snapshot of the note)
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `record_sermon_note_revision`: Trigger that snapshots every write to sermon_notes,
+      including writes made directly in the database
+    - `restore_sermon_note_revision`: Restores a note to an earlier revision
+
+  3. Security
+    - Enable RLS on sermon_note_revisions
+    - Revisions are visible to anyone who can view the note
+    - Only the note's author can restore a revision
+
+  4. Notes
+    - Writes that don't change the title, content, scripture references or status
+      (such as comment count updates) are not recorded
+    - Consecutive draft autosaves by the same user update the latest draft revision
+      instead of adding a new one
+    - Existing notes are backfilled with an initial revision
+*/
+
+-- Create revisions table
+CREATE TABLE IF NOT EXISTS sermon_note_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sermon_note_id uuid REFERENCES sermon_notes(id) ON DELETE CASCADE NOT NULL,
+  revision_number integer NOT NULL,
+  saved_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  saved_by_role text NOT NULL,
+  title text NOT NULL,
+  content jsonb NOT NULL,
+  scripture_references text[] NOT NULL DEFAULT '{}',
+  status text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(sermon_note_id, revision_number)
+);
+
+-- Enable RLS
+ALTER TABLE sermon_note_revisions ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's sermon_notes policies
+CREATE POLICY "Users can view revisions of viewable sermon notes"
+  ON sermon_note_revisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = sermon_note_revisions.sermon_note_id
+  ));
+
+-- Function to record a revision for every write to a sermon note
+CREATE OR REPLACE FUNCTION record_sermon_note_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_saved_by UUID;
+  v_saved_by_role text;
+  v_latest sermon_note_revisions%ROWTYPE;
+BEGIN
+  -- Skip writes that don't touch the note itself
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.scripture_references IS NOT DISTINCT FROM OLD.scripture_references
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- auth.uid() is null when the write comes straight from the database
+  v_saved_by := auth.uid();
+  v_saved_by_role := COALESCE(NULLIF(auth.role(), ''), session_user);
+
+  SELECT * INTO v_latest
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Collapse draft autosaves into a single revision
+  IF v_latest.id IS NOT NULL
+    AND NEW.status = 'draft'
+    AND v_latest.status = 'draft'
+    AND v_latest.saved_by IS NOT DISTINCT FROM v_saved_by
+  THEN
+    UPDATE sermon_note_revisions
+    SET
+      title = NEW.title,
+      content = NEW.content,
+      scripture_references = NEW.scripture_references,
+      created_at = now()
+    WHERE id = v_latest.id;
+
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sermon_note_revisions (
+    sermon_note_id,
+    revision_number,
+    saved_by,
+    saved_by_role,
+    title,
+    content,
+    scripture_references,
+    status
+  ) VALUES (
+    NEW.id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_saved_by,
+    v_saved_by_role,
+    NEW.title,
+    NEW.content,
+    NEW.scripture_references,
+    NEW.status
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger for sermon note writes
+DROP TRIGGER IF EXISTS record_sermon_note_revision_trigger ON sermon_notes;
+CREATE TRIGGER record_sermon_note_revision_trigger
+  AFTER INSERT OR UPDATE ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_sermon_note_revision();
+
+-- Function to restore a sermon note to an earlier revision
+CREATE OR REPLACE FUNCTION restore_sermon_note_revision(
+  p_revision_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_revision sermon_note_revisions%ROWTYPE;
+  v_revision_number integer;
+BEGIN
+  SELECT * INTO v_revision
+  FROM sermon_note_revisions
+  WHERE id = p_revision_id;
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Verify the caller is the note's author
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE id = v_revision.sermon_note_id
+    AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- The revision trigger records the restore as a new revision
+  UPDATE sermon_notes
+  SET
+    title = v_revision.title,
+    content = v_revision.content,
+    scripture_references = v_revision.scripture_references,
+    updated_at = now()
+  WHERE id = v_revision.sermon_note_id;
+
+  SELECT MAX(revision_number) INTO v_revision_number
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = v_revision.sermon_note_id;
+
+  RETURN jsonb_build_object(
+    'sermon_note_id', v_revision.sermon_note_id,
+    'restored_revision', v_revision.revision_number,
+    'revision_number', v_revision_number
+  );
+END;
+$$;
+
+-- Backfill an initial revision for existing notes
+INSERT INTO sermon_note_revisions (
+  sermon_note_id,
+  revision_number,
+  saved_by,
+  saved_by_role,
+  title,
+  content,
+  scripture_references,
+  status,
+  created_at
+)
+SELECT
+  sn.id,
+  1,
+  sn.author_id,
+  'backfill',
+  sn.title,
+  sn.content,
+  sn.scripture_references,
+  sn.status,
+  COALESCE(sn.updated_at, sn.created_at)
+FROM sermon_notes sn
+WHERE NOT EXISTS (
+  SELECT 1 FROM sermon_note_revisions r
+  WHERE r.sermon_note_id = sn.id
+);
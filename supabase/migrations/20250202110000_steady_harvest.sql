@@ -0,0 +1,279 @@
+/*
+  # Structured Sermon Metadata
+
+  1. Changes
+    - Add to `sermon_notes`:
+      - `pastor_name` (text)
+      - `church_name` (text, the church as entered, also set for churches outside the directory)
+      - `preached_on` (date)
+      - `service` (text, e.g. "Sunday Morning")
+    - `church_id` already exists and is now set when the entered church matches a directory church
+    - Add the same fields to `sermon_note_revisions` so history and restore cover them
+
+  2. Data Migration
+    - Backfill `pastor_name` and `church_name` from the `Pastor: …` / `Church: …` paragraphs
+      at the top of each document, then remove those paragraphs from the content
+    - Revisions are backfilled the same way, without recording new revisions
+    - Match `church_id` by church name where it isn't already set
+
+  3. Indexes
+    - Church and date, for church pages
+    - Lowercased pastor name, for filtering by pastor
+*/
+
+-- Add metadata columns to sermon_notes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sermon_notes' AND column_name = 'pastor_name'
+  ) THEN
+    ALTER TABLE sermon_notes
+      ADD COLUMN pastor_name text,
+      ADD COLUMN church_name text,
+      ADD COLUMN preached_on date,
+      ADD COLUMN service text;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sermon_note_revisions' AND column_name = 'pastor_name'
+  ) THEN
+    ALTER TABLE sermon_note_revisions
+      ADD COLUMN pastor_name text,
+      ADD COLUMN church_id uuid REFERENCES churches(id) ON DELETE SET NULL,
+      ADD COLUMN church_name text,
+      ADD COLUMN preached_on date,
+      ADD COLUMN service text;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS sermon_notes_church_preached_idx
+  ON sermon_notes (church_id, preached_on DESC);
+
+CREATE INDEX IF NOT EXISTS sermon_notes_pastor_name_idx
+  ON sermon_notes (lower(pastor_name));
+
+-- Read a "Prefix: value" paragraph from the metadata block at the top of a document
+CREATE FUNCTION pg_temp.sermon_metadata_line(p_content jsonb, p_prefix text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(trim(substr(block->'content'->0->>'text', length(p_prefix) + 1)), '')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p_content->'content') = 'array' THEN p_content->'content' ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(block, position)
+  WHERE position <= 3
+  AND block->>'type' = 'paragraph'
+  AND block->'content'->0->>'text' LIKE p_prefix || '%'
+  LIMIT 1;
+$$;
+
+-- Remove the Pastor/Church paragraphs from the metadata block at the top of a document
+CREATE FUNCTION pg_temp.strip_sermon_metadata_lines(p_content jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_content->'content') <> 'array' THEN p_content
+    ELSE jsonb_set(
+      p_content,
+      '{content}',
+      COALESCE((
+        SELECT jsonb_agg(block ORDER BY position)
+        FROM jsonb_array_elements(p_content->'content') WITH ORDINALITY AS t(block, position)
+        WHERE NOT (
+          position <= 3
+          AND block->>'type' = 'paragraph'
+          AND (
+            block->'content'->0->>'text' LIKE 'Pastor:%'
+            OR block->'content'->0->>'text' LIKE 'Church:%'
+          )
+        )
+      ), '[]'::jsonb)
+    )
+  END;
+$$;
+
+-- The backfill only moves data around, so it shouldn't show up as new revisions
+ALTER TABLE sermon_notes DISABLE TRIGGER record_sermon_note_revision_trigger;
+
+UPDATE sermon_notes
+SET
+  pastor_name = COALESCE(pastor_name, pg_temp.sermon_metadata_line(content, 'Pastor:')),
+  church_name = COALESCE(church_name, pg_temp.sermon_metadata_line(content, 'Church:')),
+  content = pg_temp.strip_sermon_metadata_lines(content)
+WHERE pg_temp.sermon_metadata_line(content, 'Pastor:') IS NOT NULL
+OR pg_temp.sermon_metadata_line(content, 'Church:') IS NOT NULL;
+
+UPDATE sermon_notes sn
+SET church_id = c.id
+FROM churches c
+WHERE sn.church_id IS NULL
+AND sn.church_name IS NOT NULL
+AND lower(c.name) = lower(sn.church_name);
+
+ALTER TABLE sermon_notes ENABLE TRIGGER record_sermon_note_revision_trigger;
+
+UPDATE sermon_note_revisions r
+SET
+  pastor_name = COALESCE(r.pastor_name, pg_temp.sermon_metadata_line(r.content, 'Pastor:')),
+  church_name = COALESCE(r.church_name, pg_temp.sermon_metadata_line(r.content, 'Church:')),
+  church_id = COALESCE(r.church_id, (
+    SELECT c.id FROM churches c
+    WHERE lower(c.name) = lower(pg_temp.sermon_metadata_line(r.content, 'Church:'))
+    LIMIT 1
+  )),
+  content = pg_temp.strip_sermon_metadata_lines(r.content)
+WHERE pg_temp.sermon_metadata_line(r.content, 'Pastor:') IS NOT NULL
+OR pg_temp.sermon_metadata_line(r.content, 'Church:') IS NOT NULL;
+
+-- Record metadata in revisions
+CREATE OR REPLACE FUNCTION record_sermon_note_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_saved_by UUID;
+  v_saved_by_role text;
+  v_latest sermon_note_revisions%ROWTYPE;
+BEGIN
+  -- Skip writes that don't touch the note itself
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.scripture_references IS NOT DISTINCT FROM OLD.scripture_references
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.pastor_name IS NOT DISTINCT FROM OLD.pastor_name
+    AND NEW.church_id IS NOT DISTINCT FROM OLD.church_id
+    AND NEW.church_name IS NOT DISTINCT FROM OLD.church_name
+    AND NEW.preached_on IS NOT DISTINCT FROM OLD.preached_on
+    AND NEW.service IS NOT DISTINCT FROM OLD.service
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- auth.uid() is null when the write comes straight from the database
+  v_saved_by := auth.uid();
+  v_saved_by_role := COALESCE(NULLIF(auth.role(), ''), session_user);
+
+  SELECT * INTO v_latest
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Collapse draft autosaves into a single revision
+  IF v_latest.id IS NOT NULL
+    AND NEW.status = 'draft'
+    AND v_latest.status = 'draft'
+    AND v_latest.saved_by IS NOT DISTINCT FROM v_saved_by
+  THEN
+    UPDATE sermon_note_revisions
+    SET
+      title = NEW.title,
+      content = NEW.content,
+      scripture_references = NEW.scripture_references,
+      pastor_name = NEW.pastor_name,
+      church_id = NEW.church_id,
+      church_name = NEW.church_name,
+      preached_on = NEW.preached_on,
+      service = NEW.service,
+      created_at = now()
+    WHERE id = v_latest.id;
+
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sermon_note_revisions (
+    sermon_note_id,
+    revision_number,
+    saved_by,
+    saved_by_role,
+    title,
+    content,
+    scripture_references,
+    status,
+    pastor_name,
+    church_id,
+    church_name,
+    preached_on,
+    service
+  ) VALUES (
+    NEW.id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_saved_by,
+    v_saved_by_role,
+    NEW.title,
+    NEW.content,
+    NEW.scripture_references,
+    NEW.status,
+    NEW.pastor_name,
+    NEW.church_id,
+    NEW.church_name,
+    NEW.preached_on,
+    NEW.service
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Restore metadata along with the content
+CREATE OR REPLACE FUNCTION restore_sermon_note_revision(
+  p_revision_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_revision sermon_note_revisions%ROWTYPE;
+  v_revision_number integer;
+BEGIN
+  SELECT * INTO v_revision
+  FROM sermon_note_revisions
+  WHERE id = p_revision_id;
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Verify the caller is the note's author
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE id = v_revision.sermon_note_id
+    AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- The revision trigger records the restore as a new revision
+  UPDATE sermon_notes
+  SET
+    title = v_revision.title,
+    content = v_revision.content,
+    scripture_references = v_revision.scripture_references,
+    pastor_name = v_revision.pastor_name,
+    church_id = v_revision.church_id,
+    church_name = v_revision.church_name,
+    preached_on = v_revision.preached_on,
+    service = v_revision.service,
+    updated_at = now()
+  WHERE id = v_revision.sermon_note_id;
+
+  SELECT MAX(revision_number) INTO v_revision_number
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = v_revision.sermon_note_id;
+
+  RETURN jsonb_build_object(
+    'sermon_note_id', v_revision.sermon_note_id,
+    'restored_revision', v_revision.revision_number,
+    'revision_number', v_revision_number
+  );
+END;
+$$;
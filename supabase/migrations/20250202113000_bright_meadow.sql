@@ -0,0 +1,30 @@
+/*
+  # Normalized Scripture Keys
+
+  1. Changes
+    - Add `scripture_keys` (text[]) to `sermon_notes`
+      - One key per passage, e.g. `JHN.3.16-JHN.3.18`, `PSA.23` or `ROM.8-ROM.9`
+      - Book ids follow the USFM codes (GEN … REV)
+    - `scripture_references` keeps the display strings, e.g. "John 3:16-18"
+
+  2. Indexes
+    - GIN index on `scripture_keys` for containment and overlap queries
+
+  3. Notes
+    - Keys are produced by the scripture parser in the app when a note is saved.
+      Existing notes get their keys the next time they are saved.
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'sermon_notes' AND column_name = 'scripture_keys'
+  ) THEN
+    ALTER TABLE sermon_notes
+      ADD COLUMN scripture_keys text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS sermon_notes_scripture_keys_idx
+  ON sermon_notes USING GIN (scripture_keys);
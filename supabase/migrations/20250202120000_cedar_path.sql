@@ -0,0 +1,125 @@
+/*
+  # Scripture Passage Index
+
+  1. New Tables
+    - `sermon_note_passages`
+      - `id` (uuid, primary key)
+      - `sermon_note_id` (uuid, references sermon_notes)
+      - `scripture_key` (text, one entry of sermon_notes.scripture_keys)
+      - `verses` (int4range, the passage as verse ids)
+
+  2. New Functions
+    - `scripture_key_to_verses`: Converts a key such as `JHN.3.16-JHN.3.18` to a verse id range
+    - `sync_sermon_note_passages`: Trigger that keeps the index in step with scripture_keys
+
+  3. Security
+    - Enable RLS on sermon_note_passages
+    - Passages are visible to anyone who can view the note
+
+  4. Notes
+    - Verse ids are book position * 1000000 + chapter * 1000 + verse, so Genesis 1:1 is 1001001
+      and John 3:16 is 43003016. Whole chapters run from verse 0 to 999.
+    - Overlap queries use the `&&` operator, backed by a GiST index
+*/
+
+-- Create passages table
+CREATE TABLE IF NOT EXISTS sermon_note_passages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sermon_note_id uuid REFERENCES sermon_notes(id) ON DELETE CASCADE NOT NULL,
+  scripture_key text NOT NULL,
+  verses int4range NOT NULL,
+  UNIQUE(sermon_note_id, scripture_key)
+);
+
+CREATE INDEX IF NOT EXISTS sermon_note_passages_verses_idx
+  ON sermon_note_passages USING GIST (verses);
+
+-- Enable RLS
+ALTER TABLE sermon_note_passages ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's sermon_notes policies
+CREATE POLICY "Users can view passages of viewable sermon notes"
+  ON sermon_note_passages FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = sermon_note_passages.sermon_note_id
+  ));
+
+-- Function to convert a normalized scripture key to a range of verse ids
+CREATE OR REPLACE FUNCTION scripture_key_to_verses(p_key text)
+RETURNS int4range
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_books text[] := ARRAY[
+    'GEN', 'EXO', 'LEV', 'NUM', 'DEU', 'JOS', 'JDG', 'RUT', '1SA', '2SA', '1KI', '2KI',
+    '1CH', '2CH', 'EZR', 'NEH', 'EST', 'JOB', 'PSA', 'PRO', 'ECC', 'SNG', 'ISA', 'JER',
+    'LAM', 'EZK', 'DAN', 'HOS', 'JOL', 'AMO', 'OBA', 'JON', 'MIC', 'NAM', 'HAB', 'ZEP',
+    'HAG', 'ZEC', 'MAL', 'MAT', 'MRK', 'LUK', 'JHN', 'ACT', 'ROM', '1CO', '2CO', 'GAL',
+    'EPH', 'PHP', 'COL', '1TH', '2TH', '1TI', '2TI', 'TIT', 'PHM', 'HEB', 'JAS', '1PE',
+    '2PE', '1JN', '2JN', '3JN', 'JUD', 'REV'
+  ];
+  v_start text[];
+  v_end text[];
+  v_start_book integer;
+  v_end_book integer;
+BEGIN
+  IF p_key !~ '^[1-3A-Z]{3}\.\d+(\.\d+)?(-[1-3A-Z]{3}\.\d+(\.\d+)?)?$' THEN
+    RETURN NULL;
+  END IF;
+
+  v_start := string_to_array(split_part(p_key, '-', 1), '.');
+  v_end := string_to_array(COALESCE(NULLIF(split_part(p_key, '-', 2), ''), split_part(p_key, '-', 1)), '.');
+
+  v_start_book := array_position(v_books, v_start[1]);
+  v_end_book := array_position(v_books, v_end[1]);
+
+  IF v_start_book IS NULL OR v_end_book IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN int4range(
+    v_start_book * 1000000 + v_start[2]::integer * 1000 + COALESCE(v_start[3]::integer, 0),
+    v_end_book * 1000000 + v_end[2]::integer * 1000 + COALESCE(v_end[3]::integer, 999),
+    '[]'
+  );
+END;
+$$;
+
+-- Function to rebuild a note's passages when its scripture keys change
+CREATE OR REPLACE FUNCTION sync_sermon_note_passages()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.scripture_keys IS NOT DISTINCT FROM OLD.scripture_keys THEN
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM sermon_note_passages
+  WHERE sermon_note_id = NEW.id;
+
+  INSERT INTO sermon_note_passages (sermon_note_id, scripture_key, verses)
+  SELECT DISTINCT NEW.id, key, scripture_key_to_verses(key)
+  FROM unnest(NEW.scripture_keys) AS key
+  WHERE scripture_key_to_verses(key) IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Create trigger for scripture key changes
+DROP TRIGGER IF EXISTS sync_sermon_note_passages_trigger ON sermon_notes;
+CREATE TRIGGER sync_sermon_note_passages_trigger
+  AFTER INSERT OR UPDATE OF scripture_keys ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_sermon_note_passages();
+
+-- Index notes that already have keys
+INSERT INTO sermon_note_passages (sermon_note_id, scripture_key, verses)
+SELECT DISTINCT sn.id, key, scripture_key_to_verses(key)
+FROM sermon_notes sn, unnest(sn.scripture_keys) AS key
+WHERE scripture_key_to_verses(key) IS NOT NULL
+ON CONFLICT (sermon_note_id, scripture_key) DO NOTHING;
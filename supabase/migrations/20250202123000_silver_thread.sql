@@ -0,0 +1,15 @@
+/*
+  # Feed Pagination Index
+
+  1. Indexes
+    - `sermon_notes_feed_idx` on published notes by (`created_at`, `id`), newest first
+
+  2. Notes
+    - The feed pages with a keyset cursor: each page asks for rows older than the last
+      (`created_at`, `id`) pair it has seen, so later pages cost the same as the first.
+      `id` breaks ties between notes published in the same instant.
+*/
+
+CREATE INDEX IF NOT EXISTS sermon_notes_feed_idx
+  ON sermon_notes (created_at DESC, id DESC)
+  WHERE status = 'published';
@@ -0,0 +1,91 @@
+/*
+  # Following Feed
+
+  1. New Functions
+    - `get_followed_sermon_notes`: Sermon notes written by the people the current user follows
+    - `get_follow_suggestions`: People the current user might want to follow
+
+  2. Security
+    - `get_followed_sermon_notes` runs as the caller, so the sermon_notes policies still decide
+      which of those notes are visible
+    - `get_follow_suggestions` only counts public, published notes
+
+  3. Notes
+    - `get_followed_sermon_notes` returns whole `sermon_notes` rows, so the feed can embed
+      authors, praise and comment counts, filter, order and page it exactly like the table.
+      Being a plain SQL function it is inlined into that query, so the cursor and limit
+      are applied by the planner rather than after every followed note has been read.
+    - Suggestions rank people followed by the people you follow first, then active writers.
+*/
+
+-- Function to list sermon notes by followed authors
+CREATE OR REPLACE FUNCTION get_followed_sermon_notes()
+RETURNS SETOF sermon_notes
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT sn.*
+  FROM sermon_notes sn
+  WHERE EXISTS (
+    SELECT 1 FROM follows f
+    WHERE f.follower_id = auth.uid()
+    AND f.following_id = sn.author_id
+  );
+$$;
+
+-- Function to suggest people to follow
+CREATE OR REPLACE FUNCTION get_follow_suggestions(
+  p_limit integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  username text,
+  full_name text,
+  avatar_url text,
+  note_count bigint,
+  followed_by_count bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  v_user_id := auth.uid();
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    (
+      SELECT count(*)
+      FROM sermon_notes sn
+      WHERE sn.author_id = p.id
+      AND sn.status = 'published'
+      AND sn.visibility = 'public'
+    ) AS note_count,
+    (
+      SELECT count(*)
+      FROM follows mine
+      JOIN follows theirs ON theirs.follower_id = mine.following_id
+      WHERE mine.follower_id = v_user_id
+      AND theirs.following_id = p.id
+    ) AS followed_by_count
+  FROM profiles p
+  WHERE p.id != v_user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM follows f
+    WHERE f.follower_id = v_user_id
+    AND f.following_id = p.id
+  )
+  -- Positional, as the output column names double as PL/pgSQL variables
+  ORDER BY 6 DESC, 5 DESC, p.follower_count DESC NULLS LAST, p.created_at DESC
+  LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,61 @@
+/*
+  # Most Praised Ranking
+
+  1. New Functions
+    - `get_most_praised_sermon_notes`: Published notes ranked by the praises they received
+      since a given time, ties broken by comment count and then by recency
+
+  2. Indexes
+    - `praises_created_at_idx` for counting praises within a window
+
+  3. Security
+    - Runs as the caller, so only notes the caller can view are ranked
+
+  4. Notes
+    - The window start comes from the app, so "today" and "this week" follow the reader's
+      own calendar. A NULL start ranks by all-time praises.
+    - Only notes praised at least once in the window are returned.
+    - Rankings shift as praise comes in, so pages are requested by offset.
+*/
+
+CREATE INDEX IF NOT EXISTS praises_created_at_idx
+  ON praises (created_at);
+
+-- Function to rank sermon notes by praise within a time window
+CREATE OR REPLACE FUNCTION get_most_praised_sermon_notes(
+  p_since timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  window_praise_count bigint,
+  comment_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sn.id AS sermon_note_id,
+    wp.praise_count AS window_praise_count,
+    (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+  FROM sermon_notes sn
+  JOIN (
+    SELECT p.sermon_note_id, count(*) AS praise_count
+    FROM praises p
+    WHERE p_since IS NULL OR p.created_at >= p_since
+    GROUP BY p.sermon_note_id
+  ) wp ON wp.sermon_note_id = sn.id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (
+    p_search IS NULL
+    OR sn.title ILIKE '%' || p_search || '%'
+    OR sn.pastor_name ILIKE '%' || p_search || '%'
+    OR sn.church_name ILIKE '%' || p_search || '%'
+  )
+  ORDER BY window_praise_count DESC, comment_count DESC, sn.created_at DESC, sn.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -0,0 +1,218 @@
+/*
+  # Trending Scores
+
+  1. New Tables
+    - `sermon_note_scores`
+      - `sermon_note_id` (uuid, primary key, references sermon_notes)
+      - `praise_count`, `comment_count`, `comment_praise_count` (integer)
+      - `score` (double precision, the trending score)
+      - `updated_at` (timestamptz)
+
+  2. New Functions
+    - `refresh_sermon_note_score`: Recounts a note's engagement and stores its score
+    - `handle_sermon_note_engagement`: Trigger on praises, comments and comment praises
+    - `handle_sermon_note_score_note_change`: Trigger for new and republished notes
+    - `get_trending_sermon_notes`: Published notes ordered by score
+
+  3. Security
+    - Enable RLS on sermon_note_scores
+    - Scores are visible to anyone who can view the note
+    - `get_trending_sermon_notes` runs as the caller, so only viewable notes are listed
+
+  4. Notes
+    - score = log10(max(engagement, 1)) + days since 2024-01-01, where
+      engagement = 3 x praises + 2 x comments + comment praises.
+      A note a day newer needs a tenth of the engagement to rank alongside an older one,
+      so last Sunday's well-discussed notes stay above Monday's quiet ones for a while.
+    - Age is part of the score through the note's own timestamp rather than the time the
+      score was computed, so a stored score only changes when engagement does and the
+      cached rows stay comparable without a periodic refresh.
+*/
+
+-- Create scores table
+CREATE TABLE IF NOT EXISTS sermon_note_scores (
+  sermon_note_id uuid PRIMARY KEY REFERENCES sermon_notes(id) ON DELETE CASCADE,
+  praise_count integer NOT NULL DEFAULT 0,
+  comment_count integer NOT NULL DEFAULT 0,
+  comment_praise_count integer NOT NULL DEFAULT 0,
+  score double precision NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sermon_note_scores_score_idx
+  ON sermon_note_scores (score DESC, sermon_note_id DESC);
+
+-- Enable RLS
+ALTER TABLE sermon_note_scores ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view scores of viewable sermon notes"
+  ON sermon_note_scores FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = sermon_note_scores.sermon_note_id
+  ));
+
+-- Function to recount a note's engagement and store its score
+CREATE OR REPLACE FUNCTION refresh_sermon_note_score(p_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_created_at timestamptz;
+  v_praise_count integer;
+  v_comment_count integer;
+  v_comment_praise_count integer;
+  v_engagement integer;
+BEGIN
+  SELECT created_at INTO v_created_at
+  FROM sermon_notes
+  WHERE id = p_note_id;
+
+  -- The note itself is being deleted
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT count(*) INTO v_praise_count
+  FROM praises
+  WHERE sermon_note_id = p_note_id;
+
+  SELECT count(*) INTO v_comment_count
+  FROM comments
+  WHERE sermon_note_id = p_note_id;
+
+  SELECT count(*) INTO v_comment_praise_count
+  FROM comment_praises cp
+  JOIN comments c ON c.id = cp.comment_id
+  WHERE c.sermon_note_id = p_note_id;
+
+  v_engagement := v_praise_count * 3 + v_comment_count * 2 + v_comment_praise_count;
+
+  INSERT INTO sermon_note_scores (
+    sermon_note_id,
+    praise_count,
+    comment_count,
+    comment_praise_count,
+    score,
+    updated_at
+  )
+  VALUES (
+    p_note_id,
+    v_praise_count,
+    v_comment_count,
+    v_comment_praise_count,
+    log(greatest(v_engagement, 1)::numeric)::double precision
+      + extract(epoch FROM v_created_at - '2024-01-01 00:00:00+00'::timestamptz) / 86400,
+    now()
+  )
+  ON CONFLICT (sermon_note_id) DO UPDATE
+  SET
+    praise_count = EXCLUDED.praise_count,
+    comment_count = EXCLUDED.comment_count,
+    comment_praise_count = EXCLUDED.comment_praise_count,
+    score = EXCLUDED.score,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+-- Trigger function for praises, comments and comment praises
+CREATE OR REPLACE FUNCTION handle_sermon_note_engagement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_note_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'comment_praises' THEN
+    SELECT sermon_note_id INTO v_note_id
+    FROM comments
+    WHERE id = COALESCE(NEW.comment_id, OLD.comment_id);
+  ELSE
+    v_note_id := COALESCE(NEW.sermon_note_id, OLD.sermon_note_id);
+  END IF;
+
+  IF v_note_id IS NOT NULL THEN
+    PERFORM refresh_sermon_note_score(v_note_id);
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Trigger function for new notes and notes whose timestamp moves
+CREATE OR REPLACE FUNCTION handle_sermon_note_score_note_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM refresh_sermon_note_score(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+-- Create engagement triggers
+DROP TRIGGER IF EXISTS refresh_score_on_praise ON praises;
+CREATE TRIGGER refresh_score_on_praise
+  AFTER INSERT OR DELETE ON praises
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sermon_note_engagement();
+
+DROP TRIGGER IF EXISTS refresh_score_on_comment ON comments;
+CREATE TRIGGER refresh_score_on_comment
+  AFTER INSERT OR DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sermon_note_engagement();
+
+DROP TRIGGER IF EXISTS refresh_score_on_comment_praise ON comment_praises;
+CREATE TRIGGER refresh_score_on_comment_praise
+  AFTER INSERT OR DELETE ON comment_praises
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sermon_note_engagement();
+
+DROP TRIGGER IF EXISTS refresh_score_on_note_change ON sermon_notes;
+CREATE TRIGGER refresh_score_on_note_change
+  AFTER INSERT OR UPDATE OF created_at ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_sermon_note_score_note_change();
+
+-- Function to list notes by trending score
+CREATE OR REPLACE FUNCTION get_trending_sermon_notes(
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.sermon_note_id, s.score
+  FROM sermon_note_scores s
+  JOIN sermon_notes sn ON sn.id = s.sermon_note_id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (
+    p_search IS NULL
+    OR sn.title ILIKE '%' || p_search || '%'
+    OR sn.pastor_name ILIKE '%' || p_search || '%'
+    OR sn.church_name ILIKE '%' || p_search || '%'
+  )
+  ORDER BY s.score DESC, s.sermon_note_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Score existing notes
+DO $$
+DECLARE
+  v_note_id uuid;
+BEGIN
+  FOR v_note_id IN SELECT id FROM sermon_notes LOOP
+    PERFORM refresh_sermon_note_score(v_note_id);
+  END LOOP;
+END $$;
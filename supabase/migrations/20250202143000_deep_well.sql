@@ -0,0 +1,173 @@
+/*
+  # Full-Text Search
+
+  1. Changes
+    - Add generated `search_vector` (tsvector) to `sermon_notes`, weighted:
+      - A: title
+      - B: scripture references, pastor and church
+      - C: the note text, pulled out of the TipTap document
+    - GIN index on `search_vector`
+
+  2. New Functions
+    - `sermon_note_plain_text`: Text nodes and linked scripture references of a TipTap document
+    - `sermon_note_search_vector`: Builds the weighted vector for the generated column
+    - `search_sermon_notes`: Ranked matches with highlighted title and snippet
+
+  3. Updated Functions
+    - `get_most_praised_sermon_notes` and `get_trending_sermon_notes` match their search
+      against `search_vector` instead of ILIKE on a few columns
+
+  4. Notes
+    - Queries use websearch syntax: quoted phrases, `or` and `-word` all work.
+    - Highlighted terms are wrapped in the control characters U+0002 and U+0003 rather than
+      HTML, so the app can mark them up without rendering note text as HTML.
+*/
+
+-- Function to extract the plain text of a TipTap document
+CREATE OR REPLACE FUNCTION sermon_note_plain_text(p_content jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(string_agg(value #>> '{}', ' '), '')
+  FROM (
+    SELECT jsonb_path_query(p_content, 'strict $.**.text') AS value
+    UNION ALL
+    SELECT jsonb_path_query(p_content, 'strict $.**.attrs.reference')
+  ) parts;
+$$;
+
+-- Function to build the weighted search vector of a note
+-- Declared immutable so it can back a generated column; it only depends on its arguments.
+CREATE OR REPLACE FUNCTION sermon_note_search_vector(
+  p_title text,
+  p_pastor_name text,
+  p_church_name text,
+  p_scripture_references text[],
+  p_content jsonb
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('english',
+      COALESCE(array_to_string(p_scripture_references, ' '), '') || ' ' ||
+      COALESCE(p_pastor_name, '') || ' ' ||
+      COALESCE(p_church_name, '')
+    ), 'B') ||
+    setweight(to_tsvector('english', sermon_note_plain_text(p_content)), 'C');
+$$;
+
+ALTER TABLE sermon_notes
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    sermon_note_search_vector(title, pastor_name, church_name, scripture_references, content)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS sermon_notes_search_vector_idx
+  ON sermon_notes USING GIN (search_vector);
+
+-- Function to search published notes, best matches first
+CREATE OR REPLACE FUNCTION search_sermon_notes(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) AS highlight
+  ),
+  matches AS (
+    SELECT sn.*, ts_rank_cd(sn.search_vector, search.query) AS rank
+    FROM sermon_notes sn, search
+    WHERE sn.search_vector @@ search.query
+    AND sn.status = 'published'
+    AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+    ORDER BY rank DESC, sn.created_at DESC, sn.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Headlines are only built for the page being returned
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, search.query, search.highlight || ', HighlightAll=true'),
+    ts_headline(
+      'english',
+      sermon_note_plain_text(m.content),
+      search.query,
+      search.highlight || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches m, search
+  ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$$;
+
+-- Rank by praise, matching the search against the search vector
+CREATE OR REPLACE FUNCTION get_most_praised_sermon_notes(
+  p_since timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  window_praise_count bigint,
+  comment_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sn.id AS sermon_note_id,
+    wp.praise_count AS window_praise_count,
+    (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+  FROM sermon_notes sn
+  JOIN (
+    SELECT p.sermon_note_id, count(*) AS praise_count
+    FROM praises p
+    WHERE p_since IS NULL OR p.created_at >= p_since
+    GROUP BY p.sermon_note_id
+  ) wp ON wp.sermon_note_id = sn.id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  ORDER BY window_praise_count DESC, comment_count DESC, sn.created_at DESC, sn.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- List by trending score, matching the search against the search vector
+CREATE OR REPLACE FUNCTION get_trending_sermon_notes(
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.sermon_note_id, s.score
+  FROM sermon_note_scores s
+  JOIN sermon_notes sn ON sn.id = s.sermon_note_id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  ORDER BY s.score DESC, s.sermon_note_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
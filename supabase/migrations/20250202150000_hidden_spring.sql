@@ -0,0 +1,130 @@
+/*
+  # Advanced Feed Filters
+
+  1. Changes
+    - Add generated `scripture_books` (text[]) to `sermon_notes`: the USFM book ids of every
+      passage in `scripture_keys`, with a GIN index
+    - GIN index on the `tags` column
+
+  2. New Functions
+    - `scripture_keys_to_books`: Book ids mentioned in a list of scripture keys
+    - `sermon_note_matches_filters`: Checks a note against the feed's filter panel
+
+  3. Updated Functions
+    - `get_most_praised_sermon_notes` and `get_trending_sermon_notes` take a `p_filters`
+      argument so the ranked feeds honour the same filters as the others
+
+  4. Notes
+    - `p_filters` is a JSON object with any of `pastor`, `church` (partial, case-insensitive),
+      `from`, `to` (preached-on dates, inclusive), `book` (USFM id) and `tag`.
+      Missing keys don't filter.
+*/
+
+-- Function to list the books a note's scripture keys refer to
+CREATE OR REPLACE FUNCTION scripture_keys_to_books(p_keys text[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT book ORDER BY book), '{}')
+  FROM unnest(p_keys) AS key,
+    unnest(ARRAY[
+      split_part(key, '.', 1),
+      split_part(split_part(key, '-', 2), '.', 1)
+    ]) AS book
+  WHERE book <> '';
+$$;
+
+ALTER TABLE sermon_notes
+  ADD COLUMN IF NOT EXISTS scripture_books text[]
+  GENERATED ALWAYS AS (scripture_keys_to_books(scripture_keys)) STORED;
+
+CREATE INDEX IF NOT EXISTS sermon_notes_scripture_books_idx
+  ON sermon_notes USING GIN (scripture_books);
+
+CREATE INDEX IF NOT EXISTS sermon_notes_tags_idx
+  ON sermon_notes USING GIN (tags);
+
+-- Function to check a note against the feed filters
+CREATE OR REPLACE FUNCTION sermon_note_matches_filters(
+  p_note sermon_notes,
+  p_filters jsonb
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (p_filters->>'pastor' IS NULL OR p_note.pastor_name ILIKE '%' || (p_filters->>'pastor') || '%')
+    AND (p_filters->>'church' IS NULL OR p_note.church_name ILIKE '%' || (p_filters->>'church') || '%')
+    AND (p_filters->>'from' IS NULL OR p_note.preached_on >= (p_filters->>'from')::date)
+    AND (p_filters->>'to' IS NULL OR p_note.preached_on <= (p_filters->>'to')::date)
+    AND (p_filters->>'book' IS NULL OR p_note.scripture_books @> ARRAY[p_filters->>'book'])
+    AND (p_filters->>'tag' IS NULL OR p_note.tags @> ARRAY[p_filters->>'tag']);
+$$;
+
+-- The new argument changes the signatures, so replace rather than overload
+DROP FUNCTION IF EXISTS get_most_praised_sermon_notes(timestamptz, text, integer, integer);
+DROP FUNCTION IF EXISTS get_trending_sermon_notes(text, integer, integer);
+
+-- Rank by praise within a window, applying the feed filters
+CREATE OR REPLACE FUNCTION get_most_praised_sermon_notes(
+  p_since timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  window_praise_count bigint,
+  comment_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sn.id AS sermon_note_id,
+    wp.praise_count AS window_praise_count,
+    (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+  FROM sermon_notes sn
+  JOIN (
+    SELECT p.sermon_note_id, count(*) AS praise_count
+    FROM praises p
+    WHERE p_since IS NULL OR p.created_at >= p_since
+    GROUP BY p.sermon_note_id
+  ) wp ON wp.sermon_note_id = sn.id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY window_praise_count DESC, comment_count DESC, sn.created_at DESC, sn.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- List by trending score, applying the feed filters
+CREATE OR REPLACE FUNCTION get_trending_sermon_notes(
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.sermon_note_id, s.score
+  FROM sermon_note_scores s
+  JOIN sermon_notes sn ON sn.id = s.sermon_note_id
+  WHERE sn.status = 'published'
+  AND (sn.visibility = 'public' OR sn.author_id = auth.uid())
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY s.score DESC, s.sermon_note_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
@@ -0,0 +1,79 @@
+/*
+  # Sermon Note Tags
+
+  1. New Functions
+    - `normalize_sermon_note_tags`: Trigger that lowercases, trims and de-duplicates `tags`
+    - `get_popular_tags`: Most used tags on public notes, optionally by prefix, for
+      autocomplete and the feed's tag cloud
+
+  2. Data Migration
+    - Normalize any tags already stored
+
+  3. Notes
+    - `tags` has been on `sermon_notes` since the initial schema; the GIN index on it was
+      added with the feed filters.
+    - A tag is at most 30 characters, with runs of whitespace collapsed and a leading `#`
+      dropped. A note keeps at most 10 tags.
+*/
+
+-- Function to normalize a note's tags before they are stored
+CREATE OR REPLACE FUNCTION normalize_sermon_note_tags()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.tags := COALESCE((
+    SELECT array_agg(tag ORDER BY ordinal)
+    FROM (
+      SELECT tag, ordinal, row_number() OVER (ORDER BY ordinal) AS tag_number
+      FROM (
+        SELECT DISTINCT ON (tag) tag, ordinal
+        FROM (
+          SELECT
+            left(regexp_replace(lower(trim(leading '#' FROM trim(raw))), '\s+', ' ', 'g'), 30) AS tag,
+            ordinal
+          FROM unnest(NEW.tags) WITH ORDINALITY AS t(raw, ordinal)
+        ) cleaned
+        WHERE tag <> ''
+        ORDER BY tag, ordinal
+      ) unique_tags
+    ) numbered
+    WHERE tag_number <= 10
+  ), '{}');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_sermon_note_tags_trigger ON sermon_notes;
+CREATE TRIGGER normalize_sermon_note_tags_trigger
+  BEFORE INSERT OR UPDATE OF tags ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_sermon_note_tags();
+
+-- Function to list popular tags
+CREATE OR REPLACE FUNCTION get_popular_tags(
+  p_prefix text DEFAULT NULL,
+  p_limit integer DEFAULT 20
+)
+RETURNS TABLE (
+  tag text,
+  note_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT t.tag, count(*) AS note_count
+  FROM sermon_notes sn, unnest(sn.tags) AS t(tag)
+  WHERE sn.status = 'published'
+  AND sn.visibility = 'public'
+  AND (p_prefix IS NULL OR t.tag LIKE lower(p_prefix) || '%')
+  GROUP BY t.tag
+  ORDER BY note_count DESC, t.tag
+  LIMIT p_limit;
+$$;
+
+-- Normalize existing tags; the trigger does the work
+UPDATE sermon_notes
+SET tags = tags
+WHERE tags <> '{}';
@@ -0,0 +1,201 @@
+/*
+  # Enforce Sermon Note Visibility
+
+  1. New Functions
+    - `is_church_member`: Whether the current user is an active member of a church
+
+  2. Changes
+    - Church-only notes must name a church once published
+    - Existing church-only notes without a church become private
+
+  3. Security
+    - Sermon note and comment policies check `church_memberships` instead of the unused
+      `memberships` table, so church-only notes are readable by active members of the
+      note's church (and their author) only
+    - Comments can only be added to notes the user can see
+    - Membership requests are always created as pending, and members can no longer update
+      their own membership row; joining and leaving go through `handle_church_membership`
+
+  4. Updated Functions
+    - `get_most_praised_sermon_notes`, `get_trending_sermon_notes` and `search_sermon_notes`
+      no longer limit results to public notes. They run as the caller, so the sermon_notes
+      policies decide which notes are returned, including church-only ones.
+*/
+
+-- Function to check the current user's church membership
+-- Security definer so policies can call it without going through church_memberships policies.
+CREATE OR REPLACE FUNCTION is_church_member(p_church_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM church_memberships
+    WHERE user_id = auth.uid()
+    AND church_id = p_church_id
+    AND status = 'active'
+  );
+$$;
+
+-- Church-only notes without a church could never be read by anyone but their author
+UPDATE sermon_notes
+SET visibility = 'private'
+WHERE visibility = 'church'
+AND church_id IS NULL;
+
+ALTER TABLE sermon_notes
+  DROP CONSTRAINT IF EXISTS sermon_notes_church_visibility_check;
+
+-- Drafts may still be church-only before a church is picked
+ALTER TABLE sermon_notes
+  ADD CONSTRAINT sermon_notes_church_visibility_check
+  CHECK (status = 'draft' OR visibility <> 'church' OR church_id IS NOT NULL);
+
+-- Replace the select policy to check church_memberships
+DROP POLICY IF EXISTS "Users can view public and their own sermon notes" ON sermon_notes;
+
+CREATE POLICY "Users can view public and their own sermon notes"
+  ON sermon_notes FOR SELECT
+  USING (
+    author_id = auth.uid() OR
+    (status = 'published' AND (
+      visibility = 'public' OR
+      (visibility = 'church' AND is_church_member(church_id))
+    ))
+  );
+
+-- Comments follow the visibility of their note
+DROP POLICY IF EXISTS "Users can view comments on viewable sermon notes" ON comments;
+
+CREATE POLICY "Users can view comments on viewable sermon notes"
+  ON comments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = comments.sermon_note_id
+  ));
+
+DROP POLICY IF EXISTS "Users can create comments" ON comments;
+
+CREATE POLICY "Users can create comments"
+  ON comments FOR INSERT
+  WITH CHECK (
+    auth.uid() = author_id AND
+    EXISTS (
+      SELECT 1 FROM sermon_notes
+      WHERE sermon_notes.id = comments.sermon_note_id
+    )
+  );
+
+-- Members can't approve themselves
+DROP POLICY IF EXISTS "Users can request church membership" ON church_memberships;
+
+CREATE POLICY "Users can request church membership"
+  ON church_memberships FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND status = 'pending');
+
+DROP POLICY IF EXISTS "Users can update own membership" ON church_memberships;
+
+-- Rank by praise within a window; visibility is left to the sermon_notes policies
+CREATE OR REPLACE FUNCTION get_most_praised_sermon_notes(
+  p_since timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  window_praise_count bigint,
+  comment_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sn.id AS sermon_note_id,
+    wp.praise_count AS window_praise_count,
+    (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+  FROM sermon_notes sn
+  JOIN (
+    SELECT p.sermon_note_id, count(*) AS praise_count
+    FROM praises p
+    WHERE p_since IS NULL OR p.created_at >= p_since
+    GROUP BY p.sermon_note_id
+  ) wp ON wp.sermon_note_id = sn.id
+  WHERE sn.status = 'published'
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY window_praise_count DESC, comment_count DESC, sn.created_at DESC, sn.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- List by trending score; visibility is left to the sermon_notes policies
+CREATE OR REPLACE FUNCTION get_trending_sermon_notes(
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.sermon_note_id, s.score
+  FROM sermon_note_scores s
+  JOIN sermon_notes sn ON sn.id = s.sermon_note_id
+  WHERE sn.status = 'published'
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY s.score DESC, s.sermon_note_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Search published notes; visibility is left to the sermon_notes policies
+CREATE OR REPLACE FUNCTION search_sermon_notes(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) AS highlight
+  ),
+  matches AS (
+    SELECT sn.*, ts_rank_cd(sn.search_vector, search.query) AS rank
+    FROM sermon_notes sn, search
+    WHERE sn.search_vector @@ search.query
+    AND sn.status = 'published'
+    ORDER BY rank DESC, sn.created_at DESC, sn.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Headlines are only built for the page being returned
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, search.query, search.highlight || ', HighlightAll=true'),
+    ts_headline(
+      'english',
+      sermon_note_plain_text(m.content),
+      search.query,
+      search.highlight || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches m, search
+  ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$$;
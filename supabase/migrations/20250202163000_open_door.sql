@@ -0,0 +1,231 @@
+/*
+  # Unlisted Sermon Notes
+
+  1. Changes
+    - Allow `unlisted` as a `visibility` on `sermon_notes`
+    - Add `share_token` (text, unique) to `sermon_notes`
+
+  2. New Functions
+    - `generate_share_token`: A new unguessable token
+    - `set_sermon_note_share_token`: Trigger that gives a note a token when it becomes unlisted
+      and drops it when it stops being unlisted
+    - `regenerate_share_token`: Replaces a note's token, so old links stop working
+    - `revoke_share_token`: Removes a note's token until a new one is generated
+    - `get_shared_sermon_note`: The published, unlisted note with a given token
+
+  3. Updated Functions
+    - `get_most_praised_sermon_notes`, `get_trending_sermon_notes` and `search_sermon_notes`
+      leave unlisted notes out, even for their author
+
+  4. Security
+    - Unlisted notes fall outside the sermon_notes select policy for everyone but their author.
+      Anyone else can only read them through `get_shared_sermon_note`, with the token.
+    - Only the author can regenerate or revoke a token.
+
+  5. Notes
+    - Tokens are two random UUIDs without dashes: 64 hex characters, 244 random bits.
+*/
+
+ALTER TABLE sermon_notes
+  DROP CONSTRAINT IF EXISTS sermon_notes_visibility_check;
+
+ALTER TABLE sermon_notes
+  ADD CONSTRAINT sermon_notes_visibility_check
+  CHECK (visibility IN ('public', 'private', 'church', 'unlisted'));
+
+ALTER TABLE sermon_notes
+  ADD COLUMN IF NOT EXISTS share_token text UNIQUE;
+
+-- Function to generate a share token
+CREATE OR REPLACE FUNCTION generate_share_token()
+RETURNS text
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+$$;
+
+-- Function to keep the share token in step with the note's visibility
+CREATE OR REPLACE FUNCTION set_sermon_note_share_token()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.visibility <> 'unlisted' THEN
+    NEW.share_token := NULL;
+  ELSIF TG_OP = 'INSERT' OR OLD.visibility <> 'unlisted' THEN
+    NEW.share_token := generate_share_token();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sermon_note_share_token_trigger ON sermon_notes;
+CREATE TRIGGER set_sermon_note_share_token_trigger
+  BEFORE INSERT OR UPDATE OF visibility ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sermon_note_share_token();
+
+-- Function to replace a note's share token
+CREATE OR REPLACE FUNCTION regenerate_share_token(p_note_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_token text;
+BEGIN
+  UPDATE sermon_notes
+  SET share_token = generate_share_token()
+  WHERE id = p_note_id
+  AND author_id = auth.uid()
+  AND visibility = 'unlisted'
+  RETURNING share_token INTO v_token;
+
+  IF v_token IS NULL THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+-- Function to remove a note's share token
+CREATE OR REPLACE FUNCTION revoke_share_token(p_note_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE sermon_notes
+  SET share_token = NULL
+  WHERE id = p_note_id
+  AND author_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+END;
+$$;
+
+-- Function to read an unlisted note by its token
+CREATE OR REPLACE FUNCTION get_shared_sermon_note(p_token text)
+RETURNS SETOF sermon_notes
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT sn.*
+  FROM sermon_notes sn
+  WHERE sn.share_token = p_token
+  AND sn.visibility = 'unlisted'
+  AND sn.status = 'published';
+$$;
+
+-- Rank by praise within a window, leaving out unlisted notes
+CREATE OR REPLACE FUNCTION get_most_praised_sermon_notes(
+  p_since timestamptz DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  window_praise_count bigint,
+  comment_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    sn.id AS sermon_note_id,
+    wp.praise_count AS window_praise_count,
+    (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+  FROM sermon_notes sn
+  JOIN (
+    SELECT p.sermon_note_id, count(*) AS praise_count
+    FROM praises p
+    WHERE p_since IS NULL OR p.created_at >= p_since
+    GROUP BY p.sermon_note_id
+  ) wp ON wp.sermon_note_id = sn.id
+  WHERE sn.status = 'published'
+  AND sn.visibility <> 'unlisted'
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY window_praise_count DESC, comment_count DESC, sn.created_at DESC, sn.id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- List by trending score, leaving out unlisted notes
+CREATE OR REPLACE FUNCTION get_trending_sermon_notes(
+  p_search text DEFAULT NULL,
+  p_filters jsonb DEFAULT '{}',
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.sermon_note_id, s.score
+  FROM sermon_note_scores s
+  JOIN sermon_notes sn ON sn.id = s.sermon_note_id
+  WHERE sn.status = 'published'
+  AND sn.visibility <> 'unlisted'
+  AND (p_search IS NULL OR sn.search_vector @@ websearch_to_tsquery('english', p_search))
+  AND sermon_note_matches_filters(sn, p_filters)
+  ORDER BY s.score DESC, s.sermon_note_id DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$;
+
+-- Search published notes, leaving out unlisted notes
+CREATE OR REPLACE FUNCTION search_sermon_notes(
+  p_query text,
+  p_limit integer DEFAULT 20,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  sermon_note_id uuid,
+  rank real,
+  title_highlight text,
+  snippet text
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) AS highlight
+  ),
+  matches AS (
+    SELECT sn.*, ts_rank_cd(sn.search_vector, search.query) AS rank
+    FROM sermon_notes sn, search
+    WHERE sn.search_vector @@ search.query
+    AND sn.status = 'published'
+    AND sn.visibility <> 'unlisted'
+    ORDER BY rank DESC, sn.created_at DESC, sn.id DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  -- Headlines are only built for the page being returned
+  SELECT
+    m.id,
+    m.rank,
+    ts_headline('english', m.title, search.query, search.highlight || ', HighlightAll=true'),
+    ts_headline(
+      'english',
+      sermon_note_plain_text(m.content),
+      search.query,
+      search.highlight || ', MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM matches m, search
+  ORDER BY m.rank DESC, m.created_at DESC, m.id DESC;
+$$;
@@ -0,0 +1,106 @@
+/*
+  # Threaded Comment Replies
+
+  1. Changes
+    - Add `deleted_at` (timestamptz) to `comments`, set when a comment with replies is deleted
+    - Index `comments.parent_id` for loading replies
+
+  2. New Functions
+    - `check_comment_parent`: Trigger that keeps a reply on the same note as its parent and
+      stops replies to deleted comments
+
+  3. Updated Functions
+    - `delete_comment`: A comment that has replies is blanked and kept as a placeholder so
+      the thread below it survives. Deleting the last reply under a placeholder removes the
+      placeholder too.
+
+  4. Notes
+    - `parent_id` has been on `comments` since the initial schema. Threads can nest to any
+      depth; the app decides how many levels to show inline.
+*/
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS comments_parent_id_idx
+  ON comments (parent_id);
+
+-- Function to validate a reply's parent
+CREATE OR REPLACE FUNCTION check_comment_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = NEW.parent_id
+    AND sermon_note_id = NEW.sermon_note_id
+    AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot reply to this comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_comment_parent_trigger ON comments;
+CREATE TRIGGER check_comment_parent_trigger
+  BEFORE INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_comment_parent();
+
+-- Function to delete a comment, keeping a placeholder while it has replies
+CREATE OR REPLACE FUNCTION delete_comment(
+  p_comment_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_parent_id UUID;
+BEGIN
+  -- Verify comment exists and belongs to user
+  SELECT parent_id INTO v_parent_id
+  FROM comments
+  WHERE id = p_comment_id
+  AND author_id = p_user_id
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM comments WHERE parent_id = p_comment_id) THEN
+    UPDATE comments
+    SET
+      content = '',
+      deleted_at = now(),
+      updated_at = now()
+    WHERE id = p_comment_id;
+
+    RETURN;
+  END IF;
+
+  -- Delete comment (this will cascade to comment_praises)
+  DELETE FROM comments
+  WHERE id = p_comment_id;
+
+  -- Remove placeholders left without replies, walking up the thread
+  WHILE v_parent_id IS NOT NULL LOOP
+    DELETE FROM comments c
+    WHERE c.id = v_parent_id
+    AND c.deleted_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = c.id)
+    RETURNING c.parent_id INTO v_parent_id;
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,40 @@
+/*
+  # Comment Praise State
+
+  1. Changes
+    - `comment_praises` keeps full rows for deletes, so realtime clients learn which comment
+      lost a praise
+
+  2. New Functions
+    - `get_comment_praise_states`: Praise count and the user's praise for many comments at once
+
+  3. Notes
+    - Saves a `get_comment_praise_state` call per comment when a thread loads. The single
+      comment function is still used to resync one comment after a change.
+*/
+
+ALTER TABLE comment_praises REPLICA IDENTITY FULL;
+
+-- Function to get praise state for a set of comments
+CREATE OR REPLACE FUNCTION get_comment_praise_states(
+  p_comment_ids uuid[],
+  p_user_id uuid
+)
+RETURNS TABLE (
+  comment_id uuid,
+  praise_count bigint,
+  has_praised boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    c.id AS comment_id,
+    count(cp.id) AS praise_count,
+    coalesce(bool_or(cp.user_id = p_user_id), false) AS has_praised
+  FROM comments c
+  LEFT JOIN comment_praises cp ON cp.comment_id = c.id
+  WHERE c.id = ANY(p_comment_ids)
+  GROUP BY c.id;
+$$;
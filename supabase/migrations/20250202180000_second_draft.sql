@@ -0,0 +1,168 @@
+/*
+  # Comment Editing
+
+  1. Changes
+    - Add `edited_at` (timestamptz) to `comments`, set when a comment is edited after the
+      grace window
+
+  2. New Tables
+    - `comment_revisions`
+      - `id` (uuid, primary key)
+      - `comment_id` (uuid, references comments)
+      - `content` (text, the comment as it read before the edit)
+      - `created_at` (timestamp, when it was replaced)
+
+  3. New Functions
+    - `edit_comment`: Lets an author change their comment's content
+
+  4. Updated Functions
+    - `delete_comment`: Also removes the history of a comment kept as a placeholder
+
+  5. Security
+    - Enable RLS on comment_revisions
+    - History is visible to the note's author, the comment's author and super admins
+    - There is still no update policy on comments; edits go through `edit_comment`
+
+  6. Notes
+    - Edits within 5 minutes of posting leave no marker and no history, so quick typo
+      fixes stay invisible
+*/
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+
+-- Create revisions table
+CREATE TABLE IF NOT EXISTS comment_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS comment_revisions_comment_id_idx
+  ON comment_revisions (comment_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE comment_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Note authors and moderators can view comment history"
+  ON comment_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM comments c
+      JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+      WHERE c.id = comment_revisions.comment_id
+      AND (sn.author_id = auth.uid() OR c.author_id = auth.uid())
+    )
+    OR auth.uid() IN (
+      SELECT id FROM auth.users WHERE raw_user_meta_data->>'role' = 'super_admin'
+    )
+  );
+
+-- Function to edit a comment
+CREATE OR REPLACE FUNCTION edit_comment(
+  p_comment_id uuid,
+  p_content text
+)
+RETURNS comments
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_comment comments;
+  v_content text := btrim(p_content);
+BEGIN
+  IF v_content IS NULL OR v_content = '' THEN
+    RAISE EXCEPTION 'Comment cannot be empty';
+  END IF;
+
+  SELECT * INTO v_comment
+  FROM comments
+  WHERE id = p_comment_id
+  AND author_id = auth.uid()
+  AND deleted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  IF v_comment.content = v_content THEN
+    RETURN v_comment;
+  END IF;
+
+  -- Quick fixes right after posting aren't recorded
+  IF v_comment.created_at < now() - interval '5 minutes' THEN
+    INSERT INTO comment_revisions (comment_id, content)
+    VALUES (p_comment_id, v_comment.content);
+
+    v_comment.edited_at := now();
+  END IF;
+
+  UPDATE comments
+  SET
+    content = v_content,
+    edited_at = v_comment.edited_at,
+    updated_at = now()
+  WHERE id = p_comment_id
+  RETURNING * INTO v_comment;
+
+  RETURN v_comment;
+END;
+$$;
+
+-- Function to delete a comment, keeping a placeholder while it has replies
+CREATE OR REPLACE FUNCTION delete_comment(
+  p_comment_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_parent_id UUID;
+BEGIN
+  -- Verify comment exists and belongs to user
+  SELECT parent_id INTO v_parent_id
+  FROM comments
+  WHERE id = p_comment_id
+  AND author_id = p_user_id
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM comments WHERE parent_id = p_comment_id) THEN
+    UPDATE comments
+    SET
+      content = '',
+      deleted_at = now(),
+      updated_at = now()
+    WHERE id = p_comment_id;
+
+    -- The placeholder shouldn't keep what the comment used to say
+    DELETE FROM comment_revisions
+    WHERE comment_id = p_comment_id;
+
+    RETURN;
+  END IF;
+
+  -- Delete comment (this will cascade to comment_praises and comment_revisions)
+  DELETE FROM comments
+  WHERE id = p_comment_id;
+
+  -- Remove placeholders left without replies, walking up the thread
+  WHILE v_parent_id IS NOT NULL LOOP
+    DELETE FROM comments c
+    WHERE c.id = v_parent_id
+    AND c.deleted_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = c.id)
+    RETURNING c.parent_id INTO v_parent_id;
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,217 @@
+/*
+  # Mentions
+
+  1. New Tables
+    - `mentions`
+      - `id` (uuid, primary key)
+      - `sermon_note_id` (uuid, references sermon_notes, the note the mention is on or under)
+      - `comment_id` (uuid, references comments, null for mentions in the note body)
+      - `mentioned_user_id` (uuid, references profiles)
+      - `author_id` (uuid, references profiles, who wrote the mention)
+      - `username` (text, the name as it was written)
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `user_can_view_sermon_note`: Whether a given user can read a note
+    - `sync_mentions`: Brings the mentions of a note body or comment in line with a list of
+      users, notifying the ones newly mentioned
+    - `sync_sermon_note_mentions`: Trigger reading `mention` nodes from a published note body
+    - `sync_comment_mentions`: Trigger reading `@username` from comment text
+
+  3. Security
+    - Enable RLS on mentions
+    - Mentions are visible to anyone who can view the note
+    - Mentions are only written by the triggers
+
+  4. Notes
+    - Notes store mentions as TipTap nodes, { type: 'mention', attrs: { id, label } }.
+      Comments are plain text, so `@username` is matched against profiles when saved.
+    - Only users who can read the note are recorded, so a private note or church-only note
+      never notifies an outsider. If the note later becomes visible to them, they are
+      notified then.
+    - Each mentioned user gets one `mention` notification per note body or comment, however
+      often it is edited. Mentioning yourself does nothing.
+*/
+
+-- Create mentions table
+CREATE TABLE IF NOT EXISTS mentions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sermon_note_id uuid REFERENCES sermon_notes(id) ON DELETE CASCADE NOT NULL,
+  comment_id uuid REFERENCES comments(id) ON DELETE CASCADE,
+  mentioned_user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  author_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  username text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS mentions_note_user_idx
+  ON mentions (sermon_note_id, mentioned_user_id)
+  WHERE comment_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS mentions_comment_user_idx
+  ON mentions (comment_id, mentioned_user_id)
+  WHERE comment_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS mentions_mentioned_user_id_idx
+  ON mentions (mentioned_user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE mentions ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the caller's sermon_notes policies
+CREATE POLICY "Users can view mentions on viewable sermon notes"
+  ON mentions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = mentions.sermon_note_id
+  ));
+
+-- Function to check whether a user can read a note, mirroring the sermon_notes select policy
+CREATE OR REPLACE FUNCTION user_can_view_sermon_note(
+  p_note sermon_notes,
+  p_user_id uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p_note.author_id = p_user_id
+    OR (
+      p_note.status = 'published'
+      AND (
+        p_note.visibility = 'public'
+        OR (
+          p_note.visibility = 'church'
+          AND EXISTS (
+            SELECT 1 FROM church_memberships
+            WHERE user_id = p_user_id
+            AND church_id = p_note.church_id
+            AND status = 'active'
+          )
+        )
+      )
+    );
+$$;
+
+-- Function to record the users mentioned in a note body or comment
+CREATE OR REPLACE FUNCTION sync_mentions(
+  p_note sermon_notes,
+  p_comment_id uuid,
+  p_author_id uuid,
+  p_user_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_ids uuid[];
+BEGIN
+  SELECT COALESCE(array_agg(p.id), '{}') INTO v_user_ids
+  FROM profiles p
+  WHERE p.id = ANY(p_user_ids)
+  AND p.id <> p_author_id
+  AND user_can_view_sermon_note(p_note, p.id);
+
+  DELETE FROM mentions
+  WHERE sermon_note_id = p_note.id
+  AND comment_id IS NOT DISTINCT FROM p_comment_id
+  AND NOT (mentioned_user_id = ANY(v_user_ids));
+
+  WITH inserted AS (
+    INSERT INTO mentions (sermon_note_id, comment_id, mentioned_user_id, author_id, username)
+    SELECT p_note.id, p_comment_id, p.id, p_author_id, p.username
+    FROM profiles p
+    WHERE p.id = ANY(v_user_ids)
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_user_id
+  )
+  INSERT INTO notifications (user_id, type, content)
+  SELECT
+    mentioned_user_id,
+    'mention',
+    jsonb_build_object(
+      'mentioned_by', p_author_id,
+      'sermon_note_id', p_note.id,
+      'comment_id', p_comment_id
+    )
+  FROM inserted;
+END;
+$$;
+
+-- Function to sync mentions from the mention nodes of a published note
+CREATE OR REPLACE FUNCTION sync_sermon_note_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  -- Drafts don't notify anyone until they are published
+  IF NEW.status <> 'published' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM sync_mentions(
+    NEW,
+    NULL,
+    NEW.author_id,
+    ARRAY(
+      SELECT DISTINCT (value #>> '{}')::uuid
+      FROM jsonb_path_query(NEW.content, 'strict $.**?(@.type == "mention").attrs.id') AS value
+      WHERE value #>> '{}' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_sermon_note_mentions_trigger ON sermon_notes;
+CREATE TRIGGER sync_sermon_note_mentions_trigger
+  AFTER INSERT OR UPDATE OF content, status, visibility, church_id ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_sermon_note_mentions();
+
+-- Function to sync mentions from the @usernames in a comment
+CREATE OR REPLACE FUNCTION sync_comment_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_note sermon_notes;
+BEGIN
+  SELECT * INTO v_note
+  FROM sermon_notes
+  WHERE id = NEW.sermon_note_id;
+
+  -- A deleted comment's placeholder mentions no one
+  PERFORM sync_mentions(
+    v_note,
+    NEW.id,
+    NEW.author_id,
+    ARRAY(
+      SELECT p.id
+      FROM profiles p
+      WHERE NEW.deleted_at IS NULL
+      AND lower(p.username) IN (
+        SELECT lower(match[2])
+        FROM regexp_matches(
+          NEW.content,
+          '(^|[^[:alnum:]_@])@([[:alnum:]_]+(?:[.-][[:alnum:]_]+)*)',
+          'g'
+        ) AS match
+      )
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_comment_mentions_trigger ON comments;
+CREATE TRIGGER sync_comment_mentions_trigger
+  AFTER INSERT OR UPDATE OF content, deleted_at ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_comment_mentions();
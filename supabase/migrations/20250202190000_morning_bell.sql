@@ -0,0 +1,385 @@
+/*
+  # Notification Center
+
+  1. Changes
+    - Add `actor_id` (uuid, references profiles, who caused the notification) and
+      `sermon_note_id` (uuid, references sermon_notes) to `notifications`
+    - Backfill both for existing `new_follower` and `mention` notifications
+
+  2. New Functions
+    - `create_notification`: Inserts a notification, skipping ones about your own actions
+      and repeats of one that is still unread
+    - `notify_praise`, `notify_comment_praise`, `notify_comment`, `notify_follow` and
+      `notify_membership_decision`: Triggers creating notifications
+    - `mark_notifications_read`: Marks some, or all, of the user's notifications as read
+
+  3. Updated Functions
+    - `toggle_follow`: No longer inserts the notification itself; the follows trigger does
+    - `sync_mentions`: Fills in `actor_id` and `sermon_note_id`
+
+  4. Notification types
+    - `praise`: Someone praised your note
+    - `comment_praise`: Someone praised your comment
+    - `comment`: Someone commented on your note
+    - `reply`: Someone replied to your comment. The note's author isn't also sent a
+      `comment` notification for a reply to their own comment.
+    - `new_follower`: Someone followed you
+    - `mention`: Someone mentioned you (see `sync_mentions`)
+    - `membership_approved`, `membership_rejected`: A church decided on your request
+
+  5. Security
+    - Users still only read their own notifications, and change them only through
+      `mark_notifications_read`
+*/
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS actor_id uuid REFERENCES profiles(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS sermon_note_id uuid REFERENCES sermon_notes(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx
+  ON notifications (user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications (user_id)
+  WHERE NOT read;
+
+UPDATE notifications
+SET actor_id = (content->>'follower_id')::uuid
+WHERE type = 'new_follower'
+AND actor_id IS NULL;
+
+UPDATE notifications
+SET
+  actor_id = (content->>'mentioned_by')::uuid,
+  sermon_note_id = (content->>'sermon_note_id')::uuid
+WHERE type = 'mention'
+AND actor_id IS NULL;
+
+-- Function to create a notification
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_actor_id uuid,
+  p_sermon_note_id uuid DEFAULT NULL,
+  p_content jsonb DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  -- Praising, unpraising and praising again only notifies once
+  IF EXISTS (
+    SELECT 1 FROM notifications
+    WHERE user_id = p_user_id
+    AND type = p_type
+    AND actor_id IS NOT DISTINCT FROM p_actor_id
+    AND sermon_note_id IS NOT DISTINCT FROM p_sermon_note_id
+    AND content = p_content
+    AND NOT read
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, actor_id, sermon_note_id, content)
+  VALUES (p_user_id, p_type, p_actor_id, p_sermon_note_id, p_content);
+END;
+$$;
+
+-- Function to notify a note's author of a praise
+CREATE OR REPLACE FUNCTION notify_praise()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM create_notification(
+    (SELECT author_id FROM sermon_notes WHERE id = NEW.sermon_note_id),
+    'praise',
+    NEW.user_id,
+    NEW.sermon_note_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_praise_trigger ON praises;
+CREATE TRIGGER notify_praise_trigger
+  AFTER INSERT ON praises
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_praise();
+
+-- Function to notify a comment's author of a praise
+CREATE OR REPLACE FUNCTION notify_comment_praise()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_comment comments;
+BEGIN
+  SELECT * INTO v_comment
+  FROM comments
+  WHERE id = NEW.comment_id;
+
+  PERFORM create_notification(
+    v_comment.author_id,
+    'comment_praise',
+    NEW.user_id,
+    v_comment.sermon_note_id,
+    jsonb_build_object('comment_id', NEW.comment_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_praise_trigger ON comment_praises;
+CREATE TRIGGER notify_comment_praise_trigger
+  AFTER INSERT ON comment_praises
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment_praise();
+
+-- Function to notify a note's author of a comment, and a comment's author of a reply
+CREATE OR REPLACE FUNCTION notify_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_note sermon_notes;
+  v_parent_author_id uuid;
+BEGIN
+  SELECT * INTO v_note
+  FROM sermon_notes
+  WHERE id = NEW.sermon_note_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO v_parent_author_id
+    FROM comments
+    WHERE id = NEW.parent_id;
+
+    IF user_can_view_sermon_note(v_note, v_parent_author_id) THEN
+      PERFORM create_notification(
+        v_parent_author_id,
+        'reply',
+        NEW.author_id,
+        NEW.sermon_note_id,
+        jsonb_build_object('comment_id', NEW.id, 'parent_id', NEW.parent_id)
+      );
+    END IF;
+  END IF;
+
+  IF v_parent_author_id IS DISTINCT FROM v_note.author_id THEN
+    PERFORM create_notification(
+      v_note.author_id,
+      'comment',
+      NEW.author_id,
+      NEW.sermon_note_id,
+      jsonb_build_object('comment_id', NEW.id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_comment_trigger ON comments;
+CREATE TRIGGER notify_comment_trigger
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment();
+
+-- Function to notify a user of a new follower
+CREATE OR REPLACE FUNCTION notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM create_notification(
+    NEW.following_id,
+    'new_follower',
+    NEW.follower_id,
+    NULL,
+    jsonb_build_object('follower_id', NEW.follower_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_follow_trigger ON follows;
+CREATE TRIGGER notify_follow_trigger
+  AFTER INSERT ON follows
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_follow();
+
+-- Function to notify a user when their membership request is decided
+CREATE OR REPLACE FUNCTION notify_membership_decision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status IN ('active', 'rejected') THEN
+    PERFORM create_notification(
+      NEW.user_id,
+      CASE NEW.status WHEN 'active' THEN 'membership_approved' ELSE 'membership_rejected' END,
+      auth.uid(),
+      NULL,
+      jsonb_build_object(
+        'church_id', NEW.church_id,
+        'church_name', (SELECT name FROM churches WHERE id = NEW.church_id)
+      )
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_membership_decision_trigger ON church_memberships;
+CREATE TRIGGER notify_membership_decision_trigger
+  AFTER UPDATE OF status ON church_memberships
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_membership_decision();
+
+-- Function to mark notifications as read, all of them when no ids are given
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE notifications
+  SET read = true
+  WHERE user_id = auth.uid()
+  AND NOT read
+  AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Function to toggle follow, leaving the notification to notify_follow
+CREATE OR REPLACE FUNCTION toggle_follow(
+  p_following_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_follower_id UUID;
+  v_exists BOOLEAN;
+  v_result jsonb;
+BEGIN
+  -- Get current user ID
+  v_follower_id := auth.uid();
+  
+  -- Check if already following
+  SELECT EXISTS (
+    SELECT 1 FROM follows
+    WHERE follower_id = v_follower_id
+    AND following_id = p_following_id
+  ) INTO v_exists;
+
+  IF v_exists THEN
+    -- Unfollow
+    DELETE FROM follows
+    WHERE follower_id = v_follower_id
+    AND following_id = p_following_id;
+    
+    -- Update counts
+    UPDATE profiles
+    SET follower_count = follower_count - 1
+    WHERE id = p_following_id;
+    
+    UPDATE profiles
+    SET following_count = following_count - 1
+    WHERE id = v_follower_id;
+    
+    v_result := jsonb_build_object(
+      'action', 'unfollowed',
+      'following_id', p_following_id
+    );
+  ELSE
+    -- Follow
+    INSERT INTO follows (follower_id, following_id)
+    VALUES (v_follower_id, p_following_id);
+    
+    -- Update counts
+    UPDATE profiles
+    SET follower_count = follower_count + 1
+    WHERE id = p_following_id;
+    
+    UPDATE profiles
+    SET following_count = following_count + 1
+    WHERE id = v_follower_id;
+    
+    v_result := jsonb_build_object(
+      'action', 'followed',
+      'following_id', p_following_id
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Function to record the users mentioned in a note body or comment
+CREATE OR REPLACE FUNCTION sync_mentions(
+  p_note sermon_notes,
+  p_comment_id uuid,
+  p_author_id uuid,
+  p_user_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_ids uuid[];
+BEGIN
+  SELECT COALESCE(array_agg(p.id), '{}') INTO v_user_ids
+  FROM profiles p
+  WHERE p.id = ANY(p_user_ids)
+  AND p.id <> p_author_id
+  AND user_can_view_sermon_note(p_note, p.id);
+
+  DELETE FROM mentions
+  WHERE sermon_note_id = p_note.id
+  AND comment_id IS NOT DISTINCT FROM p_comment_id
+  AND NOT (mentioned_user_id = ANY(v_user_ids));
+
+  WITH inserted AS (
+    INSERT INTO mentions (sermon_note_id, comment_id, mentioned_user_id, author_id, username)
+    SELECT p_note.id, p_comment_id, p.id, p_author_id, p.username
+    FROM profiles p
+    WHERE p.id = ANY(v_user_ids)
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_user_id
+  )
+  INSERT INTO notifications (user_id, type, actor_id, sermon_note_id, content)
+  SELECT
+    mentioned_user_id,
+    'mention',
+    p_author_id,
+    p_note.id,
+    jsonb_build_object(
+      'mentioned_by', p_author_id,
+      'sermon_note_id', p_note.id,
+      'comment_id', p_comment_id
+    )
+  FROM inserted;
+END;
+$$;
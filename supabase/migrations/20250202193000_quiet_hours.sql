@@ -0,0 +1,369 @@
+/*
+  # Notification Preferences and Batching
+
+  1. New Tables
+    - `notification_preferences`
+      - `user_id` (uuid, primary key, references profiles)
+      - `praise`, `comment`, `reply`, `mention`, `follow`, `church` (text, one of `off`,
+        `in_app` or `digest`, defaulting to `in_app`)
+      - `updated_at` (timestamp)
+
+  2. Changes
+    - Add to `notifications`:
+      - `delivery` (text, `in_app` or `digest`), from the user's preferences
+      - `group_key` (text), shared by notifications that are batched together
+      - `actor_ids` (uuid[]), everyone who took part in a batched notification
+      - `actor_count` (integer, generated from `actor_ids`)
+
+  3. New Functions
+    - `get_notification_delivery`: How a user wants a type of notification delivered
+
+  4. Updated Functions
+    - `create_notification`: Honors preferences, and folds a notification into an unread one
+      with the same group key instead of adding a row
+    - `notify_praise`, `notify_comment_praise`, `notify_comment` and `notify_follow`: Pass
+      group keys
+    - `sync_mentions`: Notifies through `create_notification`
+    - `mark_notifications_read`: Leaves digest notifications alone
+
+  5. Security
+    - Enable RLS on notification_preferences
+    - Users can only read and change their own preferences
+
+  6. Notes
+    - Batches: praise per note, praise per comment, comments per note, replies per comment
+      and new followers. A batch stays open while it is unread; once read, the next one
+      starts a new row. Mentions and church decisions are never batched.
+    - The newest actor becomes `actor_id` and the batch moves to the top of the list.
+    - `digest` notifications are kept out of the in-app list for the email digest.
+*/
+
+-- Create preferences table
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  praise text NOT NULL DEFAULT 'in_app' CHECK (praise IN ('off', 'in_app', 'digest')),
+  comment text NOT NULL DEFAULT 'in_app' CHECK (comment IN ('off', 'in_app', 'digest')),
+  reply text NOT NULL DEFAULT 'in_app' CHECK (reply IN ('off', 'in_app', 'digest')),
+  mention text NOT NULL DEFAULT 'in_app' CHECK (mention IN ('off', 'in_app', 'digest')),
+  follow text NOT NULL DEFAULT 'in_app' CHECK (follow IN ('off', 'in_app', 'digest')),
+  church text NOT NULL DEFAULT 'in_app' CHECK (church IN ('off', 'in_app', 'digest')),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own notification preferences"
+  ON notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS delivery text NOT NULL DEFAULT 'in_app'
+    CHECK (delivery IN ('in_app', 'digest')),
+  ADD COLUMN IF NOT EXISTS group_key text,
+  ADD COLUMN IF NOT EXISTS actor_ids uuid[] NOT NULL DEFAULT '{}';
+
+UPDATE notifications
+SET actor_ids = ARRAY[actor_id]
+WHERE actor_id IS NOT NULL
+AND actor_ids = '{}';
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS actor_count integer
+    GENERATED ALWAYS AS (cardinality(actor_ids)) STORED;
+
+-- At most one open batch per group
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_open_group_idx
+  ON notifications (user_id, delivery, group_key)
+  WHERE NOT read AND group_key IS NOT NULL;
+
+-- Function to look up how a user wants a type of notification delivered
+CREATE OR REPLACE FUNCTION get_notification_delivery(
+  p_user_id uuid,
+  p_type text
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN p_type IN ('praise', 'comment_praise') THEN np.praise
+        WHEN p_type = 'comment' THEN np.comment
+        WHEN p_type = 'reply' THEN np.reply
+        WHEN p_type = 'mention' THEN np.mention
+        WHEN p_type = 'new_follower' THEN np.follow
+        WHEN p_type IN ('membership_approved', 'membership_rejected') THEN np.church
+      END
+      FROM notification_preferences np
+      WHERE np.user_id = p_user_id
+    ),
+    'in_app'
+  );
+$$;
+
+DROP FUNCTION IF EXISTS create_notification(uuid, text, uuid, uuid, jsonb);
+
+-- Function to create a notification, or add to an open batch
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_actor_id uuid,
+  p_sermon_note_id uuid DEFAULT NULL,
+  p_content jsonb DEFAULT '{}',
+  p_group_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_delivery text;
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  v_delivery := get_notification_delivery(p_user_id, p_type);
+
+  IF v_delivery = 'off' THEN
+    RETURN;
+  END IF;
+
+  IF p_group_key IS NOT NULL THEN
+    -- Someone already in the batch doesn't count twice
+    UPDATE notifications
+    SET
+      actor_id = p_actor_id,
+      actor_ids = CASE
+        WHEN p_actor_id = ANY(actor_ids) THEN actor_ids
+        ELSE array_append(actor_ids, p_actor_id)
+      END,
+      content = p_content,
+      created_at = CASE
+        WHEN p_actor_id = ANY(actor_ids) THEN created_at
+        ELSE now()
+      END
+    WHERE user_id = p_user_id
+    AND delivery = v_delivery
+    AND group_key = p_group_key
+    AND NOT read;
+
+    IF FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id,
+    type,
+    actor_id,
+    actor_ids,
+    sermon_note_id,
+    content,
+    delivery,
+    group_key
+  ) VALUES (
+    p_user_id,
+    p_type,
+    p_actor_id,
+    CASE WHEN p_actor_id IS NULL THEN '{}' ELSE ARRAY[p_actor_id] END,
+    p_sermon_note_id,
+    p_content,
+    v_delivery,
+    p_group_key
+  );
+END;
+$$;
+
+-- Function to notify a note's author of a praise
+CREATE OR REPLACE FUNCTION notify_praise()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM create_notification(
+    (SELECT author_id FROM sermon_notes WHERE id = NEW.sermon_note_id),
+    'praise',
+    NEW.user_id,
+    NEW.sermon_note_id,
+    '{}',
+    'praise:' || NEW.sermon_note_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to notify a comment's author of a praise
+CREATE OR REPLACE FUNCTION notify_comment_praise()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_comment comments;
+BEGIN
+  SELECT * INTO v_comment
+  FROM comments
+  WHERE id = NEW.comment_id;
+
+  PERFORM create_notification(
+    v_comment.author_id,
+    'comment_praise',
+    NEW.user_id,
+    v_comment.sermon_note_id,
+    jsonb_build_object('comment_id', NEW.comment_id),
+    'comment_praise:' || NEW.comment_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to notify a note's author of a comment, and a comment's author of a reply
+CREATE OR REPLACE FUNCTION notify_comment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_note sermon_notes;
+  v_parent_author_id uuid;
+BEGIN
+  SELECT * INTO v_note
+  FROM sermon_notes
+  WHERE id = NEW.sermon_note_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO v_parent_author_id
+    FROM comments
+    WHERE id = NEW.parent_id;
+
+    IF user_can_view_sermon_note(v_note, v_parent_author_id) THEN
+      PERFORM create_notification(
+        v_parent_author_id,
+        'reply',
+        NEW.author_id,
+        NEW.sermon_note_id,
+        jsonb_build_object('comment_id', NEW.id, 'parent_id', NEW.parent_id),
+        'reply:' || NEW.parent_id
+      );
+    END IF;
+  END IF;
+
+  IF v_parent_author_id IS DISTINCT FROM v_note.author_id THEN
+    PERFORM create_notification(
+      v_note.author_id,
+      'comment',
+      NEW.author_id,
+      NEW.sermon_note_id,
+      jsonb_build_object('comment_id', NEW.id),
+      'comment:' || NEW.sermon_note_id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to notify a user of a new follower
+CREATE OR REPLACE FUNCTION notify_follow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM create_notification(
+    NEW.following_id,
+    'new_follower',
+    NEW.follower_id,
+    NULL,
+    jsonb_build_object('follower_id', NEW.follower_id),
+    'new_follower'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Function to record the users mentioned in a note body or comment
+CREATE OR REPLACE FUNCTION sync_mentions(
+  p_note sermon_notes,
+  p_comment_id uuid,
+  p_author_id uuid,
+  p_user_ids uuid[]
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_ids uuid[];
+  v_mentioned_user_id uuid;
+BEGIN
+  SELECT COALESCE(array_agg(p.id), '{}') INTO v_user_ids
+  FROM profiles p
+  WHERE p.id = ANY(p_user_ids)
+  AND p.id <> p_author_id
+  AND user_can_view_sermon_note(p_note, p.id);
+
+  DELETE FROM mentions
+  WHERE sermon_note_id = p_note.id
+  AND comment_id IS NOT DISTINCT FROM p_comment_id
+  AND NOT (mentioned_user_id = ANY(v_user_ids));
+
+  FOR v_mentioned_user_id IN
+    INSERT INTO mentions (sermon_note_id, comment_id, mentioned_user_id, author_id, username)
+    SELECT p_note.id, p_comment_id, p.id, p_author_id, p.username
+    FROM profiles p
+    WHERE p.id = ANY(v_user_ids)
+    ON CONFLICT DO NOTHING
+    RETURNING mentioned_user_id
+  LOOP
+    PERFORM create_notification(
+      v_mentioned_user_id,
+      'mention',
+      p_author_id,
+      p_note.id,
+      jsonb_build_object(
+        'mentioned_by', p_author_id,
+        'sermon_note_id', p_note.id,
+        'comment_id', p_comment_id
+      )
+    );
+  END LOOP;
+END;
+$$;
+
+-- Function to mark in-app notifications as read; digest ones are closed when they're sent
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE notifications
+  SET read = true
+  WHERE user_id = auth.uid()
+  AND delivery = 'in_app'
+  AND NOT read
+  AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,197 @@
+/*
+  # Weekly Email Digest
+
+  1. Changes
+    - Add to `notification_preferences`:
+      - `weekly_digest` (boolean, default true), the user's opt-out
+      - `last_digest_at` (timestamp), when the user was last sent a digest
+
+  2. New Functions
+    - `get_digest_recipients`: Users who haven't opted out and are due a digest
+    - `get_weekly_digest`: One user's digest since a given time
+      - `top_notes`: The most praised notes published by the people they follow
+      - `replies`: Replies to their comments
+      - `church_notes`: Announcements, the notes their churches' admins published
+      - `notifications`: Their unread notifications set to be delivered by digest
+    - `mark_digest_sent`: Records the send and closes the notifications it included
+
+  3. Security
+    - Only the service role can call these functions; they read email addresses and
+      other users' digests
+
+  4. Notes
+    - Notes are checked with `user_can_view_sermon_note`, the same rules as the feed
+    - Users without a preferences row get the digest
+*/
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS weekly_digest boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS last_digest_at timestamptz;
+
+-- Function to list the users due a digest
+CREATE OR REPLACE FUNCTION get_digest_recipients(
+  p_due_before timestamptz DEFAULT now() - interval '6 days'
+)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  username text,
+  full_name text,
+  last_digest_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT p.id, u.email::text, p.username, p.full_name, np.last_digest_at
+  FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  LEFT JOIN notification_preferences np ON np.user_id = p.id
+  WHERE u.email IS NOT NULL
+  AND COALESCE(np.weekly_digest, true)
+  AND (np.last_digest_at IS NULL OR np.last_digest_at < p_due_before)
+  ORDER BY p.id;
+$$;
+
+-- Function to collect a user's digest
+CREATE OR REPLACE FUNCTION get_weekly_digest(
+  p_user_id uuid,
+  p_since timestamptz,
+  p_limit integer DEFAULT 5
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_top_notes jsonb;
+  v_replies jsonb;
+  v_church_notes jsonb;
+  v_notifications jsonb;
+BEGIN
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.praise_count DESC, n.comment_count DESC, n.created_at DESC), '[]')
+  INTO v_top_notes
+  FROM (
+    SELECT
+      sn.id,
+      sn.title,
+      sn.created_at,
+      p.full_name AS author_name,
+      (SELECT count(*) FROM praises pr WHERE pr.sermon_note_id = sn.id) AS praise_count,
+      (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+    FROM sermon_notes sn
+    JOIN follows f ON f.following_id = sn.author_id AND f.follower_id = p_user_id
+    JOIN profiles p ON p.id = sn.author_id
+    WHERE sn.created_at >= p_since
+    AND user_can_view_sermon_note(sn, p_user_id)
+    ORDER BY praise_count DESC, comment_count DESC, sn.created_at DESC
+    LIMIT p_limit
+  ) n;
+
+  SELECT COALESCE(jsonb_agg(r ORDER BY r.created_at DESC), '[]')
+  INTO v_replies
+  FROM (
+    SELECT
+      c.id,
+      c.content,
+      c.created_at,
+      p.full_name AS author_name,
+      sn.id AS sermon_note_id,
+      sn.title AS sermon_note_title
+    FROM comments c
+    JOIN comments parent ON parent.id = c.parent_id AND parent.author_id = p_user_id
+    JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+    JOIN profiles p ON p.id = c.author_id
+    WHERE c.created_at >= p_since
+    AND c.author_id <> p_user_id
+    AND c.deleted_at IS NULL
+    AND user_can_view_sermon_note(sn, p_user_id)
+    ORDER BY c.created_at DESC
+    LIMIT p_limit * 2
+  ) r;
+
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.created_at DESC), '[]')
+  INTO v_church_notes
+  FROM (
+    SELECT
+      sn.id,
+      sn.title,
+      sn.created_at,
+      ch.name AS church_name,
+      p.full_name AS author_name
+    FROM sermon_notes sn
+    JOIN churches ch ON ch.id = sn.church_id AND ch.admin_id = sn.author_id
+    JOIN church_memberships cm
+      ON cm.church_id = ch.id
+      AND cm.user_id = p_user_id
+      AND cm.status = 'active'
+    JOIN profiles p ON p.id = sn.author_id
+    WHERE sn.created_at >= p_since
+    AND sn.author_id <> p_user_id
+    AND user_can_view_sermon_note(sn, p_user_id)
+    ORDER BY sn.created_at DESC
+    LIMIT p_limit
+  ) n;
+
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.created_at DESC), '[]')
+  INTO v_notifications
+  FROM (
+    SELECT
+      nt.id,
+      nt.type,
+      nt.content,
+      nt.created_at,
+      nt.actor_count,
+      p.full_name AS actor_name,
+      sn.id AS sermon_note_id,
+      sn.title AS sermon_note_title
+    FROM notifications nt
+    LEFT JOIN profiles p ON p.id = nt.actor_id
+    LEFT JOIN sermon_notes sn
+      ON sn.id = nt.sermon_note_id
+      AND user_can_view_sermon_note(sn, p_user_id)
+    WHERE nt.user_id = p_user_id
+    AND nt.delivery = 'digest'
+    AND NOT nt.read
+  ) n;
+
+  RETURN jsonb_build_object(
+    'top_notes', v_top_notes,
+    'replies', v_replies,
+    'church_notes', v_church_notes,
+    'notifications', v_notifications
+  );
+END;
+$$;
+
+-- Function to record a sent digest
+CREATE OR REPLACE FUNCTION mark_digest_sent(
+  p_user_id uuid,
+  p_notification_ids uuid[] DEFAULT '{}'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO notification_preferences (user_id, last_digest_at)
+  VALUES (p_user_id, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET last_digest_at = EXCLUDED.last_digest_at;
+
+  UPDATE notifications
+  SET read = true
+  WHERE user_id = p_user_id
+  AND delivery = 'digest'
+  AND id = ANY(p_notification_ids);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_digest_recipients(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_weekly_digest(uuid, timestamptz, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_digest_sent(uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_digest_recipients(timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION get_weekly_digest(uuid, timestamptz, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION mark_digest_sent(uuid, uuid[]) TO service_role;
@@ -0,0 +1,21 @@
+/*
+  # Limit Revision History to Authors
+
+  1. Security
+    - Replace the sermon_note_revisions select policy: only the note's author can read
+      its revisions
+
+  2. Notes
+    - Revisions include snapshots taken while the note was a private draft, so readers
+      who can see the published note shouldn't see them
+*/
+
+DROP POLICY IF EXISTS "Users can view revisions of viewable sermon notes" ON sermon_note_revisions;
+
+CREATE POLICY "Authors can view revisions of their sermon notes"
+  ON sermon_note_revisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE sermon_notes.id = sermon_note_revisions.sermon_note_id
+    AND sermon_notes.author_id = auth.uid()
+  ));
@@ -0,0 +1,203 @@
+/*
+  # Scripture Keys in Revisions
+
+  1. Changes
+    - Add `scripture_keys` (text[]) to `sermon_note_revisions`
+
+  2. Updated Functions
+    - `record_sermon_note_revision`: Snapshots `scripture_keys` and records a revision when
+      they change
+    - `restore_sermon_note_revision`: Restores `scripture_keys` with the references, so
+      `sermon_note_passages` and `scripture_books` follow the restored revision
+
+  3. Data Migration
+    - Revisions whose references match the note's current ones take the note's keys. The
+      rest are filled in by scripts/backfill-scripture-keys.mjs.
+
+  4. Notes
+    - Restoring a revision that still has no keys keeps the note's current keys
+*/
+
+ALTER TABLE sermon_note_revisions
+  ADD COLUMN IF NOT EXISTS scripture_keys text[];
+
+UPDATE sermon_note_revisions r
+SET scripture_keys = sn.scripture_keys
+FROM sermon_notes sn
+WHERE sn.id = r.sermon_note_id
+AND r.scripture_keys IS NULL
+AND r.scripture_references = sn.scripture_references;
+
+-- Record scripture keys in revisions
+CREATE OR REPLACE FUNCTION record_sermon_note_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_saved_by UUID;
+  v_saved_by_role text;
+  v_latest sermon_note_revisions%ROWTYPE;
+BEGIN
+  -- Skip writes that don't touch the note itself
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.scripture_references IS NOT DISTINCT FROM OLD.scripture_references
+    AND NEW.scripture_keys IS NOT DISTINCT FROM OLD.scripture_keys
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.pastor_name IS NOT DISTINCT FROM OLD.pastor_name
+    AND NEW.church_id IS NOT DISTINCT FROM OLD.church_id
+    AND NEW.church_name IS NOT DISTINCT FROM OLD.church_name
+    AND NEW.preached_on IS NOT DISTINCT FROM OLD.preached_on
+    AND NEW.service IS NOT DISTINCT FROM OLD.service
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- auth.uid() is null when the write comes straight from the database
+  v_saved_by := auth.uid();
+  v_saved_by_role := COALESCE(NULLIF(auth.role(), ''), session_user);
+
+  SELECT * INTO v_latest
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = NEW.id
+  ORDER BY revision_number DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  -- Filling in keys the note was missing describes the same revision
+  IF TG_OP = 'UPDATE'
+    AND v_latest.id IS NOT NULL
+    AND NEW.scripture_keys IS DISTINCT FROM OLD.scripture_keys
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+    AND NEW.scripture_references IS NOT DISTINCT FROM OLD.scripture_references
+    AND NEW.status IS NOT DISTINCT FROM OLD.status
+    AND NEW.pastor_name IS NOT DISTINCT FROM OLD.pastor_name
+    AND NEW.church_id IS NOT DISTINCT FROM OLD.church_id
+    AND NEW.church_name IS NOT DISTINCT FROM OLD.church_name
+    AND NEW.preached_on IS NOT DISTINCT FROM OLD.preached_on
+    AND NEW.service IS NOT DISTINCT FROM OLD.service
+  THEN
+    UPDATE sermon_note_revisions
+    SET scripture_keys = NEW.scripture_keys
+    WHERE id = v_latest.id;
+
+    RETURN NEW;
+  END IF;
+
+  -- Collapse draft autosaves into a single revision
+  IF v_latest.id IS NOT NULL
+    AND NEW.status = 'draft'
+    AND v_latest.status = 'draft'
+    AND v_latest.saved_by IS NOT DISTINCT FROM v_saved_by
+  THEN
+    UPDATE sermon_note_revisions
+    SET
+      title = NEW.title,
+      content = NEW.content,
+      scripture_references = NEW.scripture_references,
+      scripture_keys = NEW.scripture_keys,
+      pastor_name = NEW.pastor_name,
+      church_id = NEW.church_id,
+      church_name = NEW.church_name,
+      preached_on = NEW.preached_on,
+      service = NEW.service,
+      created_at = now()
+    WHERE id = v_latest.id;
+
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO sermon_note_revisions (
+    sermon_note_id,
+    revision_number,
+    saved_by,
+    saved_by_role,
+    title,
+    content,
+    scripture_references,
+    scripture_keys,
+    status,
+    pastor_name,
+    church_id,
+    church_name,
+    preached_on,
+    service
+  ) VALUES (
+    NEW.id,
+    COALESCE(v_latest.revision_number, 0) + 1,
+    v_saved_by,
+    v_saved_by_role,
+    NEW.title,
+    NEW.content,
+    NEW.scripture_references,
+    NEW.scripture_keys,
+    NEW.status,
+    NEW.pastor_name,
+    NEW.church_id,
+    NEW.church_name,
+    NEW.preached_on,
+    NEW.service
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Restore scripture keys along with the references
+CREATE OR REPLACE FUNCTION restore_sermon_note_revision(
+  p_revision_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_revision sermon_note_revisions%ROWTYPE;
+  v_revision_number integer;
+BEGIN
+  SELECT * INTO v_revision
+  FROM sermon_note_revisions
+  WHERE id = p_revision_id;
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Verify the caller is the note's author
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE id = v_revision.sermon_note_id
+    AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- The revision trigger records the restore as a new revision
+  UPDATE sermon_notes
+  SET
+    title = v_revision.title,
+    content = v_revision.content,
+    scripture_references = v_revision.scripture_references,
+    scripture_keys = COALESCE(v_revision.scripture_keys, scripture_keys),
+    pastor_name = v_revision.pastor_name,
+    church_id = v_revision.church_id,
+    church_name = v_revision.church_name,
+    preached_on = v_revision.preached_on,
+    service = v_revision.service,
+    updated_at = now()
+  WHERE id = v_revision.sermon_note_id;
+
+  SELECT MAX(revision_number) INTO v_revision_number
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = v_revision.sermon_note_id;
+
+  RETURN jsonb_build_object(
+    'sermon_note_id', v_revision.sermon_note_id,
+    'restored_revision', v_revision.revision_number,
+    'revision_number', v_revision_number
+  );
+END;
+$$;
@@ -0,0 +1,67 @@
+/*
+  # Delete Comments as the Caller
+
+  1. Updated Functions
+    - `delete_comment`: Takes only the comment id and checks it against `auth.uid()`
+      instead of a user id supplied by the client
+
+  2. Security
+    - The old `delete_comment(uuid, uuid)` let anyone delete a comment by passing its
+      author's id, since the function runs as its owner. It is dropped.
+*/
+
+DROP FUNCTION IF EXISTS delete_comment(uuid, uuid);
+
+-- Function to delete a comment, keeping a placeholder while it has replies
+CREATE OR REPLACE FUNCTION delete_comment(
+  p_comment_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_parent_id UUID;
+BEGIN
+  -- Verify comment exists and belongs to the caller
+  SELECT parent_id INTO v_parent_id
+  FROM comments
+  WHERE id = p_comment_id
+  AND author_id = auth.uid()
+  AND deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM comments WHERE parent_id = p_comment_id) THEN
+    UPDATE comments
+    SET
+      content = '',
+      deleted_at = now(),
+      updated_at = now()
+    WHERE id = p_comment_id;
+
+    -- The placeholder shouldn't keep what the comment used to say
+    DELETE FROM comment_revisions
+    WHERE comment_id = p_comment_id;
+
+    RETURN;
+  END IF;
+
+  -- Delete comment (this will cascade to comment_praises and comment_revisions)
+  DELETE FROM comments
+  WHERE id = p_comment_id;
+
+  -- Remove placeholders left without replies, walking up the thread
+  WHILE v_parent_id IS NOT NULL LOOP
+    DELETE FROM comments c
+    WHERE c.id = v_parent_id
+    AND c.deleted_at IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = c.id)
+    RETURNING c.parent_id INTO v_parent_id;
+
+    EXIT WHEN NOT FOUND;
+  END LOOP;
+END;
+$$;
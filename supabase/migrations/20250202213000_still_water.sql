@@ -0,0 +1,78 @@
+/*
+  # Comment Praises by Note
+
+  1. Changes
+    - Add `sermon_note_id` (uuid, references sermon_notes) to `comment_praises`, copied
+      from the praised comment, so realtime clients can subscribe to one note's praises
+
+  2. New Functions
+    - `set_comment_praise_note`: Trigger that fills in `sermon_note_id` on insert
+
+  3. Updated Functions
+    - `get_comment_praise_states`: Takes only the comment ids. Whether a comment was
+      praised is answered for `auth.uid()`, and only comments on notes the caller can read
+      are returned.
+
+  4. Security
+    - The old `get_comment_praise_states(uuid[], uuid)` answered for any user id it was
+      given and for comments on any note. It is dropped.
+*/
+
+ALTER TABLE comment_praises
+  ADD COLUMN IF NOT EXISTS sermon_note_id uuid REFERENCES sermon_notes(id) ON DELETE CASCADE;
+
+UPDATE comment_praises cp
+SET sermon_note_id = c.sermon_note_id
+FROM comments c
+WHERE c.id = cp.comment_id
+AND cp.sermon_note_id IS NULL;
+
+ALTER TABLE comment_praises
+  ALTER COLUMN sermon_note_id SET NOT NULL;
+
+-- Function to copy the praised comment's note onto the praise
+CREATE OR REPLACE FUNCTION set_comment_praise_note()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  SELECT sermon_note_id INTO NEW.sermon_note_id
+  FROM comments
+  WHERE id = NEW.comment_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_comment_praise_note_trigger ON comment_praises;
+CREATE TRIGGER set_comment_praise_note_trigger
+  BEFORE INSERT ON comment_praises
+  FOR EACH ROW
+  EXECUTE FUNCTION set_comment_praise_note();
+
+DROP FUNCTION IF EXISTS get_comment_praise_states(uuid[], uuid);
+
+-- Function to get praise state for a set of comments
+CREATE OR REPLACE FUNCTION get_comment_praise_states(
+  p_comment_ids uuid[]
+)
+RETURNS TABLE (
+  comment_id uuid,
+  praise_count bigint,
+  has_praised boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT
+    c.id AS comment_id,
+    count(cp.id) AS praise_count,
+    coalesce(bool_or(cp.user_id = auth.uid()), false) AS has_praised
+  FROM comments c
+  JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+  LEFT JOIN comment_praises cp ON cp.comment_id = c.id
+  WHERE c.id = ANY(p_comment_ids)
+  AND user_can_view_sermon_note(sn, auth.uid())
+  GROUP BY c.id;
+$$;
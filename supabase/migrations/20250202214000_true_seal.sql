@@ -0,0 +1,24 @@
+/*
+  # Comment History Moderators
+
+  1. Security
+    - Super admins are recognised by `role` in `raw_app_meta_data`, which only the service
+      role can set, instead of `raw_user_meta_data`, which users can change themselves
+*/
+
+DROP POLICY IF EXISTS "Note authors and moderators can view comment history" ON comment_revisions;
+
+CREATE POLICY "Note authors and moderators can view comment history"
+  ON comment_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM comments c
+      JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+      WHERE c.id = comment_revisions.comment_id
+      AND (sn.author_id = auth.uid() OR c.author_id = auth.uid())
+    )
+    OR auth.uid() IN (
+      SELECT id FROM auth.users WHERE raw_app_meta_data->>'role' = 'super_admin'
+    )
+  );
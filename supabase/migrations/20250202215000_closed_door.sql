@@ -0,0 +1,19 @@
+/*
+  # Internal Notification Helpers
+
+  1. Security
+    - Revoke execute from clients on the helpers the notification and mention triggers use:
+      - `create_notification`: Could write a notification to any user from any actor
+      - `sync_mentions`: Could add or remove mentions on any note or comment
+      - `user_can_view_sermon_note`: Answers whether any user can read a note
+      - `get_notification_delivery`: Reveals another user's notification preferences
+
+  2. Notes
+    - Their callers are SECURITY DEFINER functions, which run as the owner and keep access
+    - None of them is used by a row level security policy, which would run as the caller
+*/
+
+REVOKE EXECUTE ON FUNCTION create_notification(uuid, text, uuid, uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION sync_mentions(sermon_notes, uuid, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION user_can_view_sermon_note(sermon_notes, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_notification_delivery(uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Race-Free Notification Batches
+
+  1. Updated Functions
+    - `create_notification`: Adds to an open batch with `INSERT ... ON CONFLICT` on
+      `notifications_open_group_idx`, instead of an update followed by an insert
+
+  2. Notes
+    - Two actions landing at the same moment could both miss the open batch and both
+      insert, and the second insert failed on the unique index, rolling back the praise,
+      comment or follow that caused it
+*/
+
+-- Function to create a notification, or add to an open batch
+CREATE OR REPLACE FUNCTION create_notification(
+  p_user_id uuid,
+  p_type text,
+  p_actor_id uuid,
+  p_sermon_note_id uuid DEFAULT NULL,
+  p_content jsonb DEFAULT '{}',
+  p_group_key text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_delivery text;
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  v_delivery := get_notification_delivery(p_user_id, p_type);
+
+  IF v_delivery = 'off' THEN
+    RETURN;
+  END IF;
+
+  -- Ungrouped notifications never conflict; someone already in a batch doesn't count twice
+  INSERT INTO notifications (
+    user_id,
+    type,
+    actor_id,
+    actor_ids,
+    sermon_note_id,
+    content,
+    delivery,
+    group_key
+  ) VALUES (
+    p_user_id,
+    p_type,
+    p_actor_id,
+    CASE WHEN p_actor_id IS NULL THEN '{}' ELSE ARRAY[p_actor_id] END,
+    p_sermon_note_id,
+    p_content,
+    v_delivery,
+    p_group_key
+  )
+  ON CONFLICT (user_id, delivery, group_key) WHERE NOT read AND group_key IS NOT NULL
+  DO UPDATE SET
+    actor_id = EXCLUDED.actor_id,
+    actor_ids = CASE
+      WHEN EXCLUDED.actor_id = ANY(notifications.actor_ids) THEN notifications.actor_ids
+      ELSE array_append(notifications.actor_ids, EXCLUDED.actor_id)
+    END,
+    content = EXCLUDED.content,
+    created_at = CASE
+      WHEN EXCLUDED.actor_id = ANY(notifications.actor_ids) THEN notifications.created_at
+      ELSE now()
+    END;
+END;
+$$;
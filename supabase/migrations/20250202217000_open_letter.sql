@@ -0,0 +1,235 @@
+/*
+  # Digest Fixes
+
+  1. New Functions
+    - `release_digest_notifications`: Trigger that moves a user's unread digest
+      notifications to the bell when they turn the weekly email off
+
+  2. Updated Functions
+    - `get_notification_delivery`: Types set to the digest are delivered in-app while the
+      weekly email is off
+    - `get_weekly_digest`:
+      - `top_notes` and `church_notes` leave out unlisted notes, which are only for people
+        given the link
+      - `replies` is left empty when the user has turned reply notifications off
+
+  3. Data Migration
+    - Unread digest notifications of users who already turned the weekly email off are
+      moved to the bell
+
+  4. Notes
+    - A digest notification whose batch is already open in the bell is marked read rather
+      than moved, since the open batch stands for it
+*/
+
+-- Function to look up how a user wants a type of notification delivered
+CREATE OR REPLACE FUNCTION get_notification_delivery(
+  p_user_id uuid,
+  p_type text
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        -- Without the weekly email, a digest would never be sent
+        WHEN v.delivery = 'digest' AND NOT np.weekly_digest THEN 'in_app'
+        ELSE v.delivery
+      END
+      FROM notification_preferences np
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN p_type IN ('praise', 'comment_praise') THEN np.praise
+          WHEN p_type = 'comment' THEN np.comment
+          WHEN p_type = 'reply' THEN np.reply
+          WHEN p_type = 'mention' THEN np.mention
+          WHEN p_type = 'new_follower' THEN np.follow
+          WHEN p_type IN ('membership_approved', 'membership_rejected') THEN np.church
+        END AS delivery
+      ) v
+      WHERE np.user_id = p_user_id
+    ),
+    'in_app'
+  );
+$$;
+
+-- Function to collect a user's digest
+CREATE OR REPLACE FUNCTION get_weekly_digest(
+  p_user_id uuid,
+  p_since timestamptz,
+  p_limit integer DEFAULT 5
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_top_notes jsonb;
+  v_replies jsonb;
+  v_church_notes jsonb;
+  v_notifications jsonb;
+BEGIN
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.praise_count DESC, n.comment_count DESC, n.created_at DESC), '[]')
+  INTO v_top_notes
+  FROM (
+    SELECT
+      sn.id,
+      sn.title,
+      sn.created_at,
+      p.full_name AS author_name,
+      (SELECT count(*) FROM praises pr WHERE pr.sermon_note_id = sn.id) AS praise_count,
+      (SELECT count(*) FROM comments c WHERE c.sermon_note_id = sn.id) AS comment_count
+    FROM sermon_notes sn
+    JOIN follows f ON f.following_id = sn.author_id AND f.follower_id = p_user_id
+    JOIN profiles p ON p.id = sn.author_id
+    WHERE sn.created_at >= p_since
+    AND sn.visibility <> 'unlisted'
+    AND user_can_view_sermon_note(sn, p_user_id)
+    ORDER BY praise_count DESC, comment_count DESC, sn.created_at DESC
+    LIMIT p_limit
+  ) n;
+
+  SELECT COALESCE(jsonb_agg(r ORDER BY r.created_at DESC), '[]')
+  INTO v_replies
+  FROM (
+    SELECT
+      c.id,
+      c.content,
+      c.created_at,
+      p.full_name AS author_name,
+      sn.id AS sermon_note_id,
+      sn.title AS sermon_note_title
+    FROM comments c
+    JOIN comments parent ON parent.id = c.parent_id AND parent.author_id = p_user_id
+    JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+    JOIN profiles p ON p.id = c.author_id
+    WHERE c.created_at >= p_since
+    AND c.author_id <> p_user_id
+    AND c.deleted_at IS NULL
+    AND user_can_view_sermon_note(sn, p_user_id)
+    AND get_notification_delivery(p_user_id, 'reply') <> 'off'
+    ORDER BY c.created_at DESC
+    LIMIT p_limit * 2
+  ) r;
+
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.created_at DESC), '[]')
+  INTO v_church_notes
+  FROM (
+    SELECT
+      sn.id,
+      sn.title,
+      sn.created_at,
+      ch.name AS church_name,
+      p.full_name AS author_name
+    FROM sermon_notes sn
+    JOIN churches ch ON ch.id = sn.church_id AND ch.admin_id = sn.author_id
+    JOIN church_memberships cm
+      ON cm.church_id = ch.id
+      AND cm.user_id = p_user_id
+      AND cm.status = 'active'
+    JOIN profiles p ON p.id = sn.author_id
+    WHERE sn.created_at >= p_since
+    AND sn.author_id <> p_user_id
+    AND sn.visibility <> 'unlisted'
+    AND user_can_view_sermon_note(sn, p_user_id)
+    ORDER BY sn.created_at DESC
+    LIMIT p_limit
+  ) n;
+
+  SELECT COALESCE(jsonb_agg(n ORDER BY n.created_at DESC), '[]')
+  INTO v_notifications
+  FROM (
+    SELECT
+      nt.id,
+      nt.type,
+      nt.content,
+      nt.created_at,
+      nt.actor_count,
+      p.full_name AS actor_name,
+      sn.id AS sermon_note_id,
+      sn.title AS sermon_note_title
+    FROM notifications nt
+    LEFT JOIN profiles p ON p.id = nt.actor_id
+    LEFT JOIN sermon_notes sn
+      ON sn.id = nt.sermon_note_id
+      AND user_can_view_sermon_note(sn, p_user_id)
+    WHERE nt.user_id = p_user_id
+    AND nt.delivery = 'digest'
+    AND NOT nt.read
+  ) n;
+
+  RETURN jsonb_build_object(
+    'top_notes', v_top_notes,
+    'replies', v_replies,
+    'church_notes', v_church_notes,
+    'notifications', v_notifications
+  );
+END;
+$$;
+
+-- Function to move unread digest notifications to the bell
+CREATE OR REPLACE FUNCTION release_digest_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.weekly_digest OR NOT OLD.weekly_digest THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE notifications d
+  SET read = true
+  WHERE d.user_id = NEW.user_id
+  AND d.delivery = 'digest'
+  AND NOT d.read
+  AND EXISTS (
+    SELECT 1 FROM notifications b
+    WHERE b.user_id = d.user_id
+    AND b.delivery = 'in_app'
+    AND b.group_key = d.group_key
+    AND NOT b.read
+  );
+
+  UPDATE notifications
+  SET delivery = 'in_app'
+  WHERE user_id = NEW.user_id
+  AND delivery = 'digest'
+  AND NOT read;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_digest_notifications_trigger ON notification_preferences;
+CREATE TRIGGER release_digest_notifications_trigger
+  AFTER UPDATE OF weekly_digest ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION release_digest_notifications();
+
+UPDATE notifications d
+SET read = true
+FROM notification_preferences np
+WHERE np.user_id = d.user_id
+AND NOT np.weekly_digest
+AND d.delivery = 'digest'
+AND NOT d.read
+AND EXISTS (
+  SELECT 1 FROM notifications b
+  WHERE b.user_id = d.user_id
+  AND b.delivery = 'in_app'
+  AND b.group_key = d.group_key
+  AND NOT b.read
+);
+
+UPDATE notifications d
+SET delivery = 'in_app'
+FROM notification_preferences np
+WHERE np.user_id = d.user_id
+AND NOT np.weekly_digest
+AND d.delivery = 'digest'
+AND NOT d.read;
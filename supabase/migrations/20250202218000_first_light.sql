@@ -0,0 +1,34 @@
+/*
+  # Publish Time for Drafts
+
+  1. New Functions
+    - `set_sermon_note_published_at`: Trigger that resets `created_at` when a draft is
+      published
+
+  2. Notes
+    - Autosave creates the draft row within seconds of starting a note, so most notes are
+      published by updating a draft. Without this, a note begun during a service and
+      finished days later kept the draft's `created_at`, which the Recent feed, trending,
+      scripture pages and the weekly digest all order or window by.
+    - Notes already published from older drafts keep their dates
+*/
+
+-- Function to date a note from when it was published
+CREATE OR REPLACE FUNCTION set_sermon_note_published_at()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'draft' AND NEW.status = 'published' THEN
+    NEW.created_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sermon_note_published_at_trigger ON sermon_notes;
+CREATE TRIGGER set_sermon_note_published_at_trigger
+  BEFORE UPDATE OF status ON sermon_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_sermon_note_published_at();
@@ -0,0 +1,69 @@
+/*
+  # Restoring Revisions of Church-Only Notes
+
+  1. Updated Functions
+    - `restore_sermon_note_revision`: Keeps the note's current church while it is visible
+      to church members only
+
+  2. Notes
+    - Visibility isn't part of a revision. Restoring a revision without a church onto a
+      published church-only note broke `sermon_notes_church_visibility_check`, and one from
+      another church quietly changed which members could read the note.
+*/
+
+-- Function to restore a sermon note to an earlier revision
+CREATE OR REPLACE FUNCTION restore_sermon_note_revision(
+  p_revision_id UUID
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_revision sermon_note_revisions%ROWTYPE;
+  v_revision_number integer;
+BEGIN
+  SELECT * INTO v_revision
+  FROM sermon_note_revisions
+  WHERE id = p_revision_id;
+
+  IF v_revision.id IS NULL THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Verify the caller is the note's author
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes
+    WHERE id = v_revision.sermon_note_id
+    AND author_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  -- The revision trigger records the restore as a new revision
+  UPDATE sermon_notes
+  SET
+    title = v_revision.title,
+    content = v_revision.content,
+    scripture_references = v_revision.scripture_references,
+    scripture_keys = COALESCE(v_revision.scripture_keys, scripture_keys),
+    pastor_name = v_revision.pastor_name,
+    -- A church-only note keeps its church, so the same members can still read it
+    church_id = CASE WHEN visibility = 'church' THEN church_id ELSE v_revision.church_id END,
+    church_name = CASE WHEN visibility = 'church' THEN church_name ELSE v_revision.church_name END,
+    preached_on = v_revision.preached_on,
+    service = v_revision.service,
+    updated_at = now()
+  WHERE id = v_revision.sermon_note_id;
+
+  SELECT MAX(revision_number) INTO v_revision_number
+  FROM sermon_note_revisions
+  WHERE sermon_note_id = v_revision.sermon_note_id;
+
+  RETURN jsonb_build_object(
+    'sermon_note_id', v_revision.sermon_note_id,
+    'restored_revision', v_revision.revision_number,
+    'revision_number', v_revision_number
+  );
+END;
+$$;
@@ -0,0 +1,59 @@
+/*
+  # Comment Praise Counts on Comments
+
+  1. Changes
+    - Add `praise_count` (integer) to `comments`, kept up to date by a trigger, so the
+      `comments` realtime subscription, already filtered by note, carries praise changes
+    - Remove `sermon_note_id` from `comment_praises` along with the trigger that filled it
+    - `comment_praises` goes back to the default replica identity
+
+  2. New Functions
+    - `update_comment_praise_count`: Trigger that counts praises onto their comment
+
+  3. Notes
+    - With row level security on, realtime only sends the primary key of a deleted row,
+      so clients subscribed to `comment_praises` never learned which comment lost a praise
+*/
+
+ALTER TABLE comments
+  ADD COLUMN IF NOT EXISTS praise_count integer NOT NULL DEFAULT 0;
+
+UPDATE comments c
+SET praise_count = (
+  SELECT count(*) FROM comment_praises cp WHERE cp.comment_id = c.id
+);
+
+-- Function to keep a comment's praise count
+CREATE OR REPLACE FUNCTION update_comment_praise_count()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE comments
+    SET praise_count = praise_count + 1
+    WHERE id = NEW.comment_id;
+  ELSE
+    UPDATE comments
+    SET praise_count = GREATEST(praise_count - 1, 0)
+    WHERE id = OLD.comment_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_comment_praise_count_trigger ON comment_praises;
+CREATE TRIGGER update_comment_praise_count_trigger
+  AFTER INSERT OR DELETE ON comment_praises
+  FOR EACH ROW
+  EXECUTE FUNCTION update_comment_praise_count();
+
+DROP TRIGGER IF EXISTS set_comment_praise_note_trigger ON comment_praises;
+DROP FUNCTION IF EXISTS set_comment_praise_note();
+
+ALTER TABLE comment_praises
+  DROP COLUMN IF EXISTS sermon_note_id;
+
+ALTER TABLE comment_praises REPLICA IDENTITY DEFAULT;
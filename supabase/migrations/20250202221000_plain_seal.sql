@@ -0,0 +1,24 @@
+/*
+  # Comment History Moderators from the Token
+
+  1. Security
+    - Super admins are recognised by `role` in the `app_metadata` of their token instead
+      of by reading `auth.users`, which the `authenticated` role can't select from. The
+      policy is checked as a whole, so the subquery made every read of comment history
+      fail, even for note and comment authors.
+*/
+
+DROP POLICY IF EXISTS "Note authors and moderators can view comment history" ON comment_revisions;
+
+CREATE POLICY "Note authors and moderators can view comment history"
+  ON comment_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM comments c
+      JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+      WHERE c.id = comment_revisions.comment_id
+      AND (sn.author_id = auth.uid() OR c.author_id = auth.uid())
+    )
+    OR (auth.jwt() -> 'app_metadata' ->> 'role') = 'super_admin'
+  );
@@ -0,0 +1,189 @@
+/*
+  # Praise as the Caller
+
+  1. Updated Functions
+    - `toggle_praise`, `toggle_comment_praise`: Take only the note or comment id and praise
+      as `auth.uid()`
+    - `get_praise_state`, `get_comment_praise_state`: Take only the note or comment id and
+      answer whether `auth.uid()` has praised it
+    - All four refuse notes the caller can't read, per `user_can_view_sermon_note`
+
+  2. Security
+    - The `(uuid, uuid)` versions trusted a user id sent by the client while running as
+      their owner. Anyone could praise, or unpraise, as any user, which sent "praised your
+      note" notifications in their name and moved the trending and most praised rankings.
+      They are dropped.
+*/
+
+DROP FUNCTION IF EXISTS toggle_praise(uuid, uuid);
+DROP FUNCTION IF EXISTS toggle_comment_praise(uuid, uuid);
+DROP FUNCTION IF EXISTS get_praise_state(uuid, uuid);
+DROP FUNCTION IF EXISTS get_comment_praise_state(uuid, uuid);
+
+-- Function to toggle the caller's praise on a sermon note
+CREATE OR REPLACE FUNCTION toggle_praise(
+  p_note_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+  v_action TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to praise a sermon note';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes sn
+    WHERE sn.id = p_note_id
+    AND user_can_view_sermon_note(sn, v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Sermon note not found or unauthorized';
+  END IF;
+
+  DELETE FROM praises
+  WHERE sermon_note_id = p_note_id
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    v_action := 'removed';
+  ELSE
+    INSERT INTO praises (sermon_note_id, user_id)
+    VALUES (p_note_id, v_user_id);
+
+    v_action := 'added';
+  END IF;
+
+  SELECT COUNT(*)
+  FROM praises
+  WHERE sermon_note_id = p_note_id
+  INTO v_count;
+
+  RETURN json_build_object(
+    'action', v_action,
+    'new_count', v_count
+  );
+END;
+$$;
+
+-- Function to toggle the caller's praise on a comment
+CREATE OR REPLACE FUNCTION toggle_comment_praise(
+  p_comment_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_count INTEGER;
+  v_action TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be logged in to praise a comment';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM comments c
+    JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+    WHERE c.id = p_comment_id
+    AND user_can_view_sermon_note(sn, v_user_id)
+  ) THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  DELETE FROM comment_praises
+  WHERE comment_id = p_comment_id
+  AND user_id = v_user_id;
+
+  IF FOUND THEN
+    v_action := 'removed';
+  ELSE
+    INSERT INTO comment_praises (comment_id, user_id)
+    VALUES (p_comment_id, v_user_id);
+
+    v_action := 'added';
+  END IF;
+
+  SELECT COUNT(*)
+  FROM comment_praises
+  WHERE comment_id = p_comment_id
+  INTO v_count;
+
+  RETURN json_build_object(
+    'action', v_action,
+    'praise_count', v_count
+  );
+END;
+$$;
+
+-- Function to get a sermon note's praise count and whether the caller praised it
+CREATE OR REPLACE FUNCTION get_praise_state(
+  p_note_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM sermon_notes sn
+    WHERE sn.id = p_note_id
+    AND user_can_view_sermon_note(sn, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Sermon note not found or unauthorized';
+  END IF;
+
+  RETURN json_build_object(
+    'has_praised', EXISTS (
+      SELECT 1 FROM praises
+      WHERE sermon_note_id = p_note_id
+      AND user_id = auth.uid()
+    ),
+    'praise_count', (
+      SELECT COUNT(*) FROM praises
+      WHERE sermon_note_id = p_note_id
+    )
+  );
+END;
+$$;
+
+-- Function to get a comment's praise count and whether the caller praised it
+CREATE OR REPLACE FUNCTION get_comment_praise_state(
+  p_comment_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM comments c
+    JOIN sermon_notes sn ON sn.id = c.sermon_note_id
+    WHERE c.id = p_comment_id
+    AND user_can_view_sermon_note(sn, auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Comment not found or unauthorized';
+  END IF;
+
+  RETURN json_build_object(
+    'has_praised', EXISTS (
+      SELECT 1 FROM comment_praises
+      WHERE comment_id = p_comment_id
+      AND user_id = auth.uid()
+    ),
+    'praise_count', (
+      SELECT COUNT(*) FROM comment_praises
+      WHERE comment_id = p_comment_id
+    )
+  );
+END;
+$$;